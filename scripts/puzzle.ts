@@ -0,0 +1,242 @@
+import { readFileSync } from "fs"
+import { parseArgs } from "util"
+import { PuzzleEngine } from "@/components/logic/PuzzleEngine"
+import { MAX_CAPACITY, MAX_TUBES, parsePuzzle } from "@/components/logic/PuzzleFormat"
+import { COLOR_PALETTE, DIFFICULTY } from "@/lib/constants"
+import { Move } from "@/lib/types"
+
+/**
+ * Command-line tool for generating, solving and rating puzzles
+ *
+ *   npm run puzzle -- generate --colors 8 --capacity 4 --seed 42
+ *   npm run puzzle -- solve "v1;4;aabc/bbca/ccab/-"
+ *   npm run puzzle -- generate --count 20 --difficulty HARD | npm run puzzle -- rate
+ *
+ * Boards are read and printed in the puzzle text format, one per line.
+ * solve and rate take a board as argument or read boards from stdin.
+ */
+const USAGE = `Usage: npm run puzzle -- <command> [options]
+
+Commands:
+  generate            Print new puzzles, one board per line
+  solve [board]       Print the shortest solution as comma separated from-to moves
+  rate [board]        Print the difficulty rating of a puzzle's starting board
+
+Boards use the puzzle text format, e.g. "v1;4;aabc/bbca/ccab/-". Without a
+board argument, solve and rate read one board per line from stdin.
+
+Generate options:
+  --difficulty <level>  Use the board size and rating band of EASY, MEDIUM or HARD
+  --colors <n>          Number of colors, one full tube each (default 5)
+  --capacity <n>        Segments per tube (default 4)
+  --empty <n>           Number of empty tubes (default 1)
+  --seed <n>            Seed for the first puzzle; later puzzles count up from it
+  --count <n>           Number of puzzles to generate (default 1)
+
+Options:
+  --json              Print one JSON object per line instead of text
+  --help              Show this message
+
+solve and rate exit with status 1 if any board is invalid or can't be solved.`
+
+type DifficultyName = keyof typeof DIFFICULTY
+
+interface Options {
+  json: boolean
+  difficulty?: string
+  colors?: string
+  capacity?: string
+  empty?: string
+  seed?: string
+  count?: string
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+      difficulty: { type: "string" },
+      colors: { type: "string" },
+      capacity: { type: "string" },
+      empty: { type: "string" },
+      seed: { type: "string" },
+      count: { type: "string" },
+    },
+  })
+  const [command, ...boards] = positionals
+
+  if (values.help || !command) {
+    console.log(USAGE)
+    return
+  }
+
+  switch (command) {
+    case "generate":
+      generate(values)
+      break
+    case "solve":
+      readBoards(boards).forEach((board) => solve(board, values.json))
+      break
+    case "rate":
+      readBoards(boards).forEach((board) => rate(board, values.json))
+      break
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`)
+  }
+}
+
+/**
+ * Generate puzzles with the generator the game uses
+ */
+function generate(options: Options): void {
+  const preset = options.difficulty
+    ? DIFFICULTY[parseDifficulty(options.difficulty)]
+    : null
+  const colorCount = parseCount(options.colors, "colors", preset?.COLOR_COUNT ?? 5)
+  const capacity = parseCount(options.capacity, "capacity", preset?.TUBE_HEIGHT ?? 4)
+  const emptyTubes = parseCount(options.empty, "empty", preset?.EMPTY_TUBES ?? 1)
+  const count = parseCount(options.count, "count", 1)
+  const firstSeed = options.seed === undefined ? null : parseCount(options.seed, "seed", 0)
+
+  if (colorCount < 1 || colorCount > COLOR_PALETTE.length) {
+    throw new Error(`--colors must be between 1 and ${COLOR_PALETTE.length}`)
+  }
+  if (capacity < 1 || capacity > MAX_CAPACITY) {
+    throw new Error(`--capacity must be between 1 and ${MAX_CAPACITY}`)
+  }
+  if (colorCount + emptyTubes > MAX_TUBES) {
+    throw new Error(`--colors and --empty can add up to at most ${MAX_TUBES} tubes`)
+  }
+
+  const engine = new PuzzleEngine()
+
+  for (let i = 0; i < count; i++) {
+    const seed = firstSeed === null ? undefined : (firstSeed + i) >>> 0
+    engine.setup(colorCount + emptyTubes, capacity, {
+      seed,
+      emptyTubes,
+      ratingBand: preset?.RATING,
+    })
+
+    const board = engine.exportState({ includeMoves: false })
+    print(options.json, board, {
+      board,
+      seed: engine.getSeed(),
+      colors: colorCount,
+      capacity,
+      emptyTubes,
+      rating: engine.getRating(),
+    })
+  }
+}
+
+/**
+ * Find the shortest solution from a board's current position, after any
+ * moves it records
+ */
+function solve(board: string, json: boolean): void {
+  const engine = loadBoard(board)
+  if (!engine) return
+
+  const { solvability, moves, stats } = engine.analyze()
+  if (!moves) {
+    process.exitCode = 1
+  }
+
+  print(json, moves ? formatMoves(moves) : solvability, {
+    board,
+    solvability,
+    moves,
+    stats,
+  })
+}
+
+/**
+ * Rate the difficulty of a board's starting position
+ */
+function rate(board: string, json: boolean): void {
+  const engine = loadBoard(board)
+  if (!engine) return
+
+  const rating = engine.rate()
+  if (!rating) {
+    process.exitCode = 1
+  }
+
+  print(
+    json,
+    rating
+      ? `${rating.score} (optimal moves ${rating.optimalMoves}, ` +
+          `branching ${rating.branchingFactor}, dead ends ${rating.deadEnds}, ` +
+          `empty tube moves ${rating.emptyTubeMoves})`
+      : "unsolvable",
+    { board, rating }
+  )
+}
+
+/**
+ * Load a board into a new engine, reporting why if it isn't valid
+ */
+function loadBoard(board: string): PuzzleEngine | null {
+  const engine = new PuzzleEngine()
+
+  try {
+    if (engine.load(parsePuzzle(board))) return engine
+    reportError(board, "recorded moves are not valid")
+  } catch (error) {
+    reportError(board, error instanceof Error ? error.message : String(error))
+  }
+
+  return null
+}
+
+/**
+ * Boards given as arguments, or one per line from stdin
+ */
+function readBoards(args: string[]): string[] {
+  const boards = args.length > 0 ? args : readFileSync(0, "utf8").split("\n")
+  return boards.map((board) => board.trim()).filter(Boolean)
+}
+
+function formatMoves(moves: Move[]): string {
+  return moves.length > 0
+    ? moves.map((move) => `${move.fromIndex}-${move.toIndex}`).join(",")
+    : "solved"
+}
+
+function print(json: boolean, text: string, data: object): void {
+  console.log(json ? JSON.stringify(data) : text)
+}
+
+function reportError(board: string, message: string): void {
+  console.error(`Invalid board "${board}": ${message}`)
+  process.exitCode = 1
+}
+
+function parseDifficulty(text: string): DifficultyName {
+  const name = text.toUpperCase()
+  if (!(name in DIFFICULTY)) {
+    throw new Error(
+      `Unknown difficulty "${text}", expected ${Object.keys(DIFFICULTY).join(", ")}`
+    )
+  }
+  return name as DifficultyName
+}
+
+function parseCount(text: string | undefined, name: string, fallback: number): number {
+  if (text === undefined) return fallback
+
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`--${name} must be a whole number, got "${text}"`)
+  }
+  return Number(text)
+}
+
+try {
+  main()
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}
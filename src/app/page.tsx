@@ -1,8 +1,16 @@
 import Head from "next/head"
 import Link from "next/link"
 import { GameContainerWrapper } from "@/components/GameContainerWrapper"
+import { parseLaunchParams } from "@/lib/share"
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}) {
+  // Shared links open a specific puzzle via ?p= or ?seed=&difficulty=
+  const launchOptions = parseLaunchParams(await searchParams)
 
-export default function Home() {
   return (
     <div>
       <Head>
@@ -26,7 +34,7 @@ export default function Home() {
           </p>
         </header>
         <main className="flex justify-center items-center">
-          <GameContainerWrapper />
+          <GameContainerWrapper launchOptions={launchOptions} />
         </main>
         <footer className="text-center text-sm">
           <p>
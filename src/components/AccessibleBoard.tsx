@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from "react"
+
+import { BoardSnapshot } from "@/lib/types"
+import { describeTube } from "./logic/BoardDescription"
+import MainScene, { ANNOUNCEMENT_EVENT, BOARD_SNAPSHOT_EVENT } from "./scenes/MainScene"
+
+const buttonClassName =
+  "rounded border border-current px-3 py-1 text-left disabled:opacity-50"
+
+/**
+ * A screen reader copy of the board drawn in the canvas, with buttons that
+ * play the game and a live region announcing what happens
+ *
+ * It is visually hidden until a control inside it gets keyboard focus.
+ */
+export const AccessibleBoard = ({ game }: { game: Phaser.Game | null }) => {
+  const [board, setBoard] = useState<BoardSnapshot | null>(null)
+  // Each announcement gets a new id so repeating a message is read out again
+  const [announcement, setAnnouncement] = useState({ id: 0, message: "" })
+
+  useEffect(() => {
+    if (!game) return
+
+    const handleSnapshot = (snapshot: BoardSnapshot | null) => setBoard(snapshot)
+    const handleAnnouncement = (message: string) =>
+      setAnnouncement((previous) => ({ id: previous.id + 1, message }))
+
+    game.events.on(BOARD_SNAPSHOT_EVENT, handleSnapshot)
+    game.events.on(ANNOUNCEMENT_EVENT, handleAnnouncement)
+
+    // The board may have been published before we started listening
+    if (game.scene.isActive("MainScene")) {
+      setBoard((game.scene.getScene("MainScene") as MainScene).getBoardSnapshot())
+    }
+
+    return () => {
+      game.events.off(BOARD_SNAPSHOT_EVENT, handleSnapshot)
+      game.events.off(ANNOUNCEMENT_EVENT, handleAnnouncement)
+    }
+  }, [game])
+
+  const getScene = () => game?.scene.getScene("MainScene") as MainScene | undefined
+
+  return (
+    <section
+      aria-label="Puzzle board"
+      className="sr-only focus-within:not-sr-only focus-within:flex flex-col gap-3 p-4 text-sm"
+    >
+      {board ? (
+        <>
+          <p>
+            {board.moveCount} {board.moveCount === 1 ? "move" : "moves"} played. Colors
+            are listed from the bottom of each tube to the top.
+          </p>
+          <ul aria-label="Tubes" className="flex flex-col gap-1">
+            {board.tubes.map((colors, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  className={buttonClassName}
+                  aria-pressed={board.selectedIndex === index}
+                  disabled={board.gameOver}
+                  onClick={() => getScene()?.selectTubeAt(index)}
+                >
+                  {describeTube(index, colors, board.capacity)}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div role="group" aria-label="Game controls" className="flex gap-2">
+            <button
+              type="button"
+              className={buttonClassName}
+              disabled={board.gameOver || !board.canUndo}
+              onClick={() => getScene()?.undoMove()}
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              className={buttonClassName}
+              disabled={board.gameOver || !board.canRedo}
+              onClick={() => getScene()?.redoMove()}
+            >
+              Redo
+            </button>
+            <button
+              type="button"
+              className={buttonClassName}
+              disabled={board.gameOver}
+              onClick={() => getScene()?.requestHint()}
+            >
+              Hint
+            </button>
+            <button
+              type="button"
+              className={buttonClassName}
+              onClick={() => getScene()?.restartPuzzle()}
+            >
+              {board.gameOver ? "Play again" : "Restart"}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p>No puzzle is showing.</p>
+      )}
+      <div role="status" aria-live="polite" aria-atomic="true">
+        {announcement.message && <p key={announcement.id}>{announcement.message}</p>}
+      </div>
+    </section>
+  )
+}
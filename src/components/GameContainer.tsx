@@ -3,20 +3,29 @@
 import { useEffect, useRef, useState } from "react"
 
 import { APP_HEIGHT, APP_WIDTH } from "@/lib/constants"
+import { LaunchOptions } from "@/lib/types"
+import { AccessibleBoard } from "./AccessibleBoard"
+import { getGameHeight } from "./logic/TubeLayout"
+import LevelEditorScene from "./scenes/LevelEditorScene"
+import LevelSelectScene from "./scenes/LevelSelectScene"
 import MainScene from "./scenes/MainScene"
 
 // Define base config without Phaser-specific types
 const configBase = {
-  width: APP_WIDTH,
-  height: APP_HEIGHT,
   backgroundColor: "#000000",
   parent: "phaser-game", // corresponds to id of containing div
-  scene: [MainScene],
 }
 
-export const GameContainer = () => {
+export const GameContainer = ({
+  launchOptions,
+}: {
+  launchOptions?: LaunchOptions
+}) => {
   const phaserGameRef = useRef<HTMLDivElement>(null)
   const [isClient, setIsClient] = useState(false)
+  const [game, setGame] = useState<Phaser.Game | null>(null)
+  // Portrait screens get a taller game; it's fixed once the game starts
+  const [gameHeight, setGameHeight] = useState(APP_HEIGHT)
 
   useEffect(() => {
     // Set isClient to true when component mounts on client side
@@ -25,45 +34,71 @@ export const GameContainer = () => {
 
   useEffect(() => {
     // Only initialize/import Phaser on the client side
-    if (isClient) {
-      import('phaser').then((PhaserModule) => {
-        let game: Phaser.Game | null = null
+    if (!isClient) return
 
-        // Complete config inclusive of Phaser-specific properties
-        const completeConfig = {
-          ...configBase,
-          type: PhaserModule.AUTO,
-          parent: phaserGameRef.current,
-        }
+    let game: Phaser.Game | null = null
+    let cancelled = false
+    const height = getGameHeight(window.innerWidth, window.innerHeight)
+    setGameHeight(height)
 
-        // Create the Phaser game instance
-        game = new PhaserModule.Game(completeConfig)
+    import('phaser').then((PhaserModule) => {
+      if (cancelled) return
 
-        // Cleanup on unmount
-        return () => {
-          if (game) {
-            game.destroy(true)
-          }
-        }
-      })
+      // Complete config inclusive of Phaser-specific properties
+      const completeConfig = {
+        ...configBase,
+        type: PhaserModule.AUTO,
+        parent: phaserGameRef.current,
+        // Scale the canvas to fit its container, which sizes itself to the screen
+        scale: {
+          mode: PhaserModule.Scale.FIT,
+          autoCenter: PhaserModule.Scale.CENTER_BOTH,
+          width: APP_WIDTH,
+          height,
+        },
+      }
+
+      // Create the Phaser game instance
+      game = new PhaserModule.Game(completeConfig)
+
+      // Start the main scene with the requested puzzle, if any
+      game.scene.add("MainScene", MainScene, true, launchOptions ?? {})
+      game.scene.add("LevelSelectScene", LevelSelectScene, false)
+      game.scene.add("LevelEditorScene", LevelEditorScene, false)
+      setGame(game)
+    })
+
+    // Cleanup on unmount
+    return () => {
+      cancelled = true
+      setGame(null)
+      if (game) {
+        game.destroy(true)
+      }
     }
-  }, [isClient])
+  }, [isClient, launchOptions])
 
   return (
-    <div className="flex justify-center items-center py-8">
+    <div className="flex flex-col justify-center items-center py-8 w-full">
+      {/* The canvas means nothing to screen readers; AccessibleBoard stands in for it */}
       <div 
+        aria-hidden="true"
         className="rounded-xl shadow-xl overflow-hidden"
         style={{ 
           padding: '0',
-          display: 'inline-block',
-          lineHeight: '0'
+          lineHeight: '0',
+          // As wide as fits on screen at the game's aspect ratio, up to full size
+          width: `min(100%, ${APP_WIDTH}px, calc((100dvh - 4rem) * ${APP_WIDTH / gameHeight}))`,
+          aspectRatio: `${APP_WIDTH} / ${gameHeight}`,
         }}
       >
         <div 
           id="phaser-game" 
           ref={phaserGameRef} 
+          className="w-full h-full"
         />
       </div>
+      <AccessibleBoard game={game} />
     </div>
   )
 }
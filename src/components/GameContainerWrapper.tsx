@@ -1,6 +1,7 @@
 'use client'
 
 import dynamic from 'next/dynamic'
+import { LaunchOptions } from '@/lib/types'
 
 // Dynamically load GameContainer with no SSR to prevent "window is not defined" errors
 const GameContainerClient = dynamic(
@@ -8,7 +9,11 @@ const GameContainerClient = dynamic(
   { ssr: false }
 )
 
-export function GameContainerWrapper() {
-  return <GameContainerClient />
+export function GameContainerWrapper({
+  launchOptions,
+}: {
+  launchOptions?: LaunchOptions
+}) {
+  return <GameContainerClient launchOptions={launchOptions} />
 }
 
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { describePour, describeRejectedPour, describeTube } from "./BoardDescription"
+
+describe("describeTube", () => {
+  it("lists colors from the bottom up with the free space", () => {
+    expect(describeTube(2, [0, 0, 2], 4)).toBe("Tube 3: red, red, blue, 1 space free")
+    expect(describeTube(0, [], 3)).toBe("Tube 1: empty, 3 spaces free")
+    expect(describeTube(1, [1, 1], 2)).toBe("Tube 2: green, green, full")
+  })
+})
+
+describe("describePour", () => {
+  it("names the color, amount and tubes", () => {
+    expect(describePour({ fromIndex: 0, toIndex: 3, color: 3, count: 2 })).toBe(
+      "Poured 2 yellow from tube 1 into tube 4"
+    )
+  })
+})
+
+describe("describeRejectedPour", () => {
+  const tubes = [[0, 1], [0, 0, 0], [], [1]]
+
+  it("explains a full destination", () => {
+    expect(describeRejectedPour(tubes, 0, 1, 3)).toBe(
+      "Can't pour from tube 1 into tube 2: tube 2 is full"
+    )
+  })
+
+  it("explains mismatched colors", () => {
+    expect(describeRejectedPour(tubes, 1, 3, 3)).toBe(
+      "Can't pour from tube 2 into tube 4: red doesn't go on green"
+    )
+  })
+
+  it("explains an empty source", () => {
+    expect(describeRejectedPour(tubes, 2, 3, 3)).toBe(
+      "Can't pour from tube 3 into tube 4: tube 3 is empty"
+    )
+  })
+})
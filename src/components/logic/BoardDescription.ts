@@ -0,0 +1,56 @@
+import { COLOR_NAMES } from "@/lib/constants"
+import { Move } from "@/lib/types"
+
+/**
+ * Spoken name of a palette color
+ */
+export function getColorName(color: number): string {
+  return COLOR_NAMES[color] ?? `color ${color + 1}`
+}
+
+/**
+ * Describe a tube's contents from bottom to top, e.g. "Tube 3: red, red, blue, 1 space free"
+ * Tubes are numbered from 1 like the number key shortcuts.
+ */
+export function describeTube(index: number, colors: number[], capacity: number): string {
+  const free = capacity - colors.length
+  const contents = colors.length === 0 ? "empty" : colors.map(getColorName).join(", ")
+  const space = free === 0 ? "full" : `${free} ${free === 1 ? "space" : "spaces"} free`
+
+  return `Tube ${index + 1}: ${contents}, ${space}`
+}
+
+/**
+ * Describe a pour that was made
+ */
+export function describePour(move: Move): string {
+  return `Poured ${move.count} ${getColorName(move.color)} from tube ${move.fromIndex + 1} into tube ${move.toIndex + 1}`
+}
+
+/**
+ * Explain why a pour between two tubes isn't allowed
+ */
+export function describeRejectedPour(
+  tubeColors: number[][],
+  fromIndex: number,
+  toIndex: number,
+  capacity: number
+): string {
+  const from = tubeColors[fromIndex] ?? []
+  const to = tubeColors[toIndex] ?? []
+  const prefix = `Can't pour from tube ${fromIndex + 1} into tube ${toIndex + 1}`
+
+  if (from.length === 0) {
+    return `${prefix}: tube ${fromIndex + 1} is empty`
+  }
+  if (to.length >= capacity) {
+    return `${prefix}: tube ${toIndex + 1} is full`
+  }
+
+  const fromTop = from[from.length - 1]
+  const toTop = to[to.length - 1]
+  if (toTop !== undefined && toTop !== fromTop) {
+    return `${prefix}: ${getColorName(fromTop)} doesn't go on ${getColorName(toTop)}`
+  }
+  return prefix
+}
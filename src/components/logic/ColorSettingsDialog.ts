@@ -0,0 +1,176 @@
+import { APP_WIDTH, COLORS, HEX_COLORS } from "@/lib/constants"
+import { ColorSettings, ColorVisionMode } from "@/lib/types"
+import { drawSegmentGlyph } from "../objects/SegmentGlyph"
+import { COLOR_VISION_MODES, getContrastingInk, getPalette } from "./ColorVision"
+import MainScene from "../scenes/MainScene"
+
+// Number of palette colors shown in the preview, enough for the hardest preset
+const PREVIEW_COLOR_COUNT = 9
+
+const PALETTE_LABELS: Record<ColorVisionMode, string> = {
+  standard: "STANDARD",
+  deuteranopia: "DEUTERANOPIA",
+  protanopia: "PROTANOPIA",
+  tritanopia: "TRITANOPIA",
+}
+
+/**
+ * Modal dialog for choosing the liquid palette and whether segments show glyphs
+ * Changes apply to the board straight away so the player can see the result.
+ */
+export class ColorSettingsDialog {
+  private container: Phaser.GameObjects.Container | null = null
+  private inputBlocker: Phaser.GameObjects.Rectangle | null = null
+  private preview: Phaser.GameObjects.Graphics | null = null
+  private settings: ColorSettings = { palette: "standard", patterns: false }
+
+  constructor(private readonly game: MainScene) {}
+
+  /**
+   * Check if the dialog is showing
+   */
+  public isOpen(): boolean {
+    return this.container !== null
+  }
+
+  /**
+   * Show the dialog starting from the given settings
+   * onChange receives the settings every time the player changes one
+   */
+  public open(initialSettings: ColorSettings, onChange: (settings: ColorSettings) => void): void {
+    this.close()
+    this.settings = { ...initialSettings }
+
+    // Block clicks from reaching the board while the dialog is open
+    this.inputBlocker = this.game.add
+      .rectangle(APP_WIDTH / 2, this.game.scale.height / 2, APP_WIDTH, this.game.scale.height, 0x000000, 0.6)
+      .setInteractive()
+
+    this.container = this.game.add.container(APP_WIDTH / 2, this.game.scale.height / 2)
+
+    const background = this.game.add
+      .rectangle(0, 0, 420, 300, 0x000000, 0.85)
+      .setStrokeStyle(2, COLORS.DARK_TURQUOISE)
+
+    const title = this.game.add
+      .text(0, -120, "COLORS", {
+        fontSize: "24px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+
+    const paletteButton = this.createSettingRow(-70, "PALETTE", PALETTE_LABELS[this.settings.palette], () => {
+      const index = COLOR_VISION_MODES.indexOf(this.settings.palette)
+      this.settings.palette = COLOR_VISION_MODES[(index + 1) % COLOR_VISION_MODES.length]
+      paletteButton.setText(PALETTE_LABELS[this.settings.palette])
+      this.update(onChange)
+    })
+
+    const patternsButton = this.createSettingRow(-25, "PATTERNS", this.getPatternsLabel(), () => {
+      this.settings.patterns = !this.settings.patterns
+      patternsButton.setText(this.getPatternsLabel())
+      this.update(onChange)
+    })
+
+    this.preview = this.game.add.graphics()
+
+    const doneButton = this.createButton(0, 110, "DONE", () => this.close())
+
+    this.container.add([background, title, this.preview, doneButton])
+    this.drawPreview()
+  }
+
+  /**
+   * Remove the dialog from the scene
+   */
+  public close(): void {
+    this.container?.destroy()
+    this.inputBlocker?.destroy()
+    this.container = null
+    this.inputBlocker = null
+    this.preview = null
+  }
+
+  private update(onChange: (settings: ColorSettings) => void): void {
+    this.drawPreview()
+    onChange({ ...this.settings })
+  }
+
+  private getPatternsLabel(): string {
+    return this.settings.patterns ? "ON" : "OFF"
+  }
+
+  /**
+   * Add a labelled row with a button that changes the setting
+   * Returns the button so its label can be updated
+   */
+  private createSettingRow(
+    y: number,
+    label: string,
+    value: string,
+    onClick: () => void
+  ): Phaser.GameObjects.Text {
+    const labelText = this.game.add
+      .text(-180, y, label, {
+        fontSize: "18px",
+        fontFamily: "monospace",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0, 0.5)
+
+    const button = this.createButton(90, y, value, onClick)
+    this.container?.add([labelText, button])
+    return button
+  }
+
+  /**
+   * Show the first palette colors as they will look on the board
+   */
+  private drawPreview(): void {
+    if (!this.preview) return
+
+    const palette = getPalette(this.settings.palette)
+    const spacing = 40
+    const startX = -((PREVIEW_COLOR_COUNT - 1) * spacing) / 2
+    const y = 40
+
+    this.preview.clear()
+    for (let colorIndex = 0; colorIndex < PREVIEW_COLOR_COUNT; colorIndex++) {
+      const x = startX + colorIndex * spacing
+      this.preview.fillStyle(palette[colorIndex], 1)
+      this.preview.fillRoundedRect(x - 15, y - 15, 30, 30, 6)
+
+      if (this.settings.patterns) {
+        drawSegmentGlyph(this.preview, colorIndex, x, y, 8, getContrastingInk(palette[colorIndex]))
+      }
+    }
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void
+  ): Phaser.GameObjects.Text {
+    const button = this.game.add
+      .text(x, y, label, {
+        fontSize: "18px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: { left: 10, right: 10, top: 5, bottom: 5 },
+        color: HEX_COLORS.WHITE,
+        align: "center",
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", onClick)
+      .on("pointerover", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+
+    return button
+  }
+}
@@ -0,0 +1,41 @@
+import { ColorSettings } from "@/lib/types"
+import { COLOR_VISION_MODES } from "./ColorVision"
+
+const STORAGE_KEY = "water-pour-fun:colors"
+
+const DEFAULT_SETTINGS: ColorSettings = { palette: "standard", patterns: false }
+
+/**
+ * Saves the player's palette and pattern choices in local storage
+ */
+export class ColorSettingsStore {
+  /**
+   * Load the saved settings, or the defaults if there are none
+   */
+  load(): ColorSettings {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY)
+      if (!stored) return { ...DEFAULT_SETTINGS }
+
+      const parsed = JSON.parse(stored) as Partial<ColorSettings> | null
+      return {
+        palette: COLOR_VISION_MODES.find((mode) => mode === parsed?.palette) ?? DEFAULT_SETTINGS.palette,
+        patterns: typeof parsed?.patterns === "boolean" ? parsed.patterns : DEFAULT_SETTINGS.patterns,
+      }
+    } catch (error) {
+      console.warn("Could not read color settings", error)
+      return { ...DEFAULT_SETTINGS }
+    }
+  }
+
+  /**
+   * Save the settings
+   */
+  save(settings: ColorSettings): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+    } catch (error) {
+      console.warn("Could not save color settings", error)
+    }
+  }
+}
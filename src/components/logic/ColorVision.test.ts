@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import { COLOR_PALETTE, COLORS, DIFFICULTY } from "@/lib/constants"
+import { CUSTOM_BOARD_LIMITS } from "./CustomBoardDialog"
+import { parsePuzzle } from "./PuzzleFormat"
+import {
+  COLOR_VISION_MODES,
+  findIndistinguishableColors,
+  getColorDifference,
+  getLookalikeColorWarning,
+  getPalette,
+  simulateColorVision,
+} from "./ColorVision"
+
+// The most colors a preset or custom board can use
+const MAX_BOARD_COLORS = Math.max(
+  CUSTOM_BOARD_LIMITS.colorCount.max,
+  ...Object.values(DIFFICULTY).map((difficulty) => difficulty.COLOR_COUNT)
+)
+
+describe("simulateColorVision", () => {
+  it("leaves colors unchanged for standard vision", () => {
+    COLOR_PALETTE.forEach((color) => {
+      expect(simulateColorVision(color, "standard")).toBe(color)
+    })
+  })
+
+  it("makes red and green hard to tell apart with red-green color blindness", () => {
+    const standard = getColorDifference(COLORS.RED, COLORS.GREEN, "standard")
+    expect(getColorDifference(COLORS.RED, COLORS.GREEN, "deuteranopia")).toBeLessThan(standard / 2)
+    expect(getColorDifference(COLORS.RED, COLORS.GREEN, "protanopia")).toBeLessThan(standard / 2)
+  })
+})
+
+describe("color vision palettes", () => {
+  it.each(COLOR_VISION_MODES)("%s has a color for every palette index", (mode) => {
+    expect(getPalette(mode)).toHaveLength(COLOR_PALETTE.length)
+  })
+
+  it.each(COLOR_VISION_MODES)("%s keeps the colors of every board size apart", (mode) => {
+    const colors = Array.from({ length: MAX_BOARD_COLORS }, (_, i) => i)
+    expect(findIndistinguishableColors(colors, mode)).toEqual([])
+  })
+})
+
+describe("findIndistinguishableColors", () => {
+  const indexOf = (color: number) => COLOR_PALETTE.indexOf(color)
+
+  it("flags near-duplicate colors in the standard palette", () => {
+    const cyan = indexOf(COLORS.CYAN)
+    const darkTurquoise = indexOf(COLORS.DARK_TURQUOISE)
+    const mediumTurquoise = indexOf(COLORS.MEDIUM_TURQUOISE)
+
+    expect(
+      findIndistinguishableColors([mediumTurquoise, darkTurquoise, cyan, cyan], "standard")
+    ).toEqual([
+      [cyan, mediumTurquoise],
+      [cyan, darkTurquoise],
+      [mediumTurquoise, darkTurquoise],
+    ])
+  })
+
+  it("keeps purple and dark violet apart", () => {
+    expect(
+      findIndistinguishableColors([indexOf(COLORS.PURPLE), indexOf(COLORS.DARK_VIOLET)], "standard")
+    ).toEqual([])
+  })
+})
+
+describe("getLookalikeColorWarning", () => {
+  // A shared board mixing cyan, medium turquoise and dark turquoise
+  const { tubes } = parsePuzzle("v1;2;fr/vf/rv/-")
+
+  it("warns about a loaded board whose colors look alike", () => {
+    expect(getLookalikeColorWarning(tubes, { palette: "standard", patterns: false })).not.toBeNull()
+  })
+
+  it("doesn't warn when patterns tell the colors apart", () => {
+    expect(getLookalikeColorWarning(tubes, { palette: "standard", patterns: true })).toBeNull()
+  })
+
+  it("doesn't warn about a board with distinct colors", () => {
+    const { tubes } = parsePuzzle("v1;2;ab/ba/-")
+    expect(getLookalikeColorWarning(tubes, { palette: "deuteranopia", patterns: false })).toBeNull()
+  })
+})
@@ -0,0 +1,161 @@
+import { COLOR_VISION_PALETTES } from "@/lib/constants"
+import { ColorSettings, ColorVisionMode } from "@/lib/types"
+
+/**
+ * Smallest CIE76 color difference (ΔE) at which two liquids can be told
+ * apart at a glance; the standard cyan and turquoises fall below it
+ */
+export const MIN_COLOR_DIFFERENCE = 20
+
+/**
+ * Color vision modes in the order the settings cycle through them
+ */
+export const COLOR_VISION_MODES: ColorVisionMode[] = [
+  "standard",
+  "deuteranopia",
+  "protanopia",
+  "tritanopia",
+]
+
+type Vector3 = [number, number, number]
+type Matrix3 = [Vector3, Vector3, Vector3]
+
+// Machado, Oliveira and Fernandes (2009) simulation matrices at full severity,
+// applied to linear RGB
+const SIMULATION_MATRICES: Record<Exclude<ColorVisionMode, "standard">, Matrix3> = {
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+}
+
+// D65 reference white for converting to CIELAB
+const WHITE_POINT: Vector3 = [0.95047, 1, 1.08883]
+
+/**
+ * Get the liquid colors for a color vision mode
+ */
+export function getPalette(mode: ColorVisionMode): number[] {
+  return COLOR_VISION_PALETTES[mode]
+}
+
+/**
+ * Approximate how a color looks to someone with the given color vision
+ */
+export function simulateColorVision(color: number, mode: ColorVisionMode): number {
+  return fromLinearRgb(simulateLinear(toLinearRgb(color), mode))
+}
+
+/**
+ * Perceptual difference (CIE76 ΔE) between two colors as seen with the given color vision
+ */
+export function getColorDifference(a: number, b: number, mode: ColorVisionMode): number {
+  const labA = toLab(simulateLinear(toLinearRgb(a), mode))
+  const labB = toLab(simulateLinear(toLinearRgb(b), mode))
+
+  return Math.hypot(labA[0] - labB[0], labA[1] - labB[1], labA[2] - labB[2])
+}
+
+/**
+ * Find pairs of palette indexes that look too alike in the mode's palette,
+ * as seen by a player with that color vision
+ */
+export function findIndistinguishableColors(
+  colorIndexes: number[],
+  mode: ColorVisionMode
+): [number, number][] {
+  const palette = getPalette(mode)
+  const colors = [...new Set(colorIndexes)].sort((a, b) => a - b)
+  const pairs: [number, number][] = []
+
+  colors.forEach((a, i) => {
+    colors.slice(i + 1).forEach((b) => {
+      if (getColorDifference(palette[a], palette[b], mode) < MIN_COLOR_DIFFERENCE) {
+        pairs.push([a, b])
+      }
+    })
+  })
+
+  return pairs
+}
+
+/**
+ * Warning for a board whose colors look too alike with the player's color
+ * settings, e.g. a shared or saved board using the standard turquoises
+ * Returns null when the colors can be told apart or patterns mark them
+ */
+export function getLookalikeColorWarning(
+  tubeColors: number[][],
+  settings: ColorSettings
+): string | null {
+  if (settings.patterns) return null
+
+  const pairs = findIndistinguishableColors(tubeColors.flat(), settings.palette)
+  return pairs.length > 0
+    ? "SOME COLORS ON THIS BOARD LOOK ALIKE — TURN ON PATTERNS IN COLORS"
+    : null
+}
+
+/**
+ * Whether black or white reads better on top of a color
+ */
+export function getContrastingInk(color: number): number {
+  const [r, g, b] = toLinearRgb(color)
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+  return luminance > 0.3 ? 0x000000 : 0xffffff
+}
+
+function simulateLinear(rgb: Vector3, mode: ColorVisionMode): Vector3 {
+  if (mode === "standard") return rgb
+
+  const matrix = SIMULATION_MATRICES[mode]
+  return matrix.map((row) =>
+    clamp(row[0] * rgb[0] + row[1] * rgb[1] + row[2] * rgb[2])
+  ) as Vector3
+}
+
+function toLinearRgb(color: number): Vector3 {
+  return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff].map((channel) => {
+    const value = channel / 255
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  }) as Vector3
+}
+
+function fromLinearRgb(rgb: Vector3): number {
+  const [r, g, b] = rgb.map((value) => {
+    const encoded = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055
+    return Math.round(clamp(encoded) * 255)
+  })
+
+  return (r << 16) | (g << 8) | b
+}
+
+function toLab([r, g, b]: Vector3): Vector3 {
+  const xyz: Vector3 = [
+    0.4124 * r + 0.3576 * g + 0.1805 * b,
+    0.2126 * r + 0.7152 * g + 0.0722 * b,
+    0.0193 * r + 0.1192 * g + 0.9505 * b,
+  ]
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const t = value / WHITE_POINT[i]
+    return t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116
+  })
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
@@ -0,0 +1,155 @@
+import { APP_WIDTH, COLORS, HEX_COLORS } from "@/lib/constants"
+import { BoardSettings } from "@/lib/types"
+import MainScene from "../scenes/MainScene"
+import { MAX_CAPACITY } from "./PuzzleFormat"
+
+/**
+ * Allowed range for each custom board setting
+ */
+export const CUSTOM_BOARD_LIMITS: Record<
+  keyof BoardSettings,
+  { min: number; max: number }
+> = {
+  colorCount: { min: 2, max: 9 },
+  capacity: { min: 2, max: MAX_CAPACITY },
+  emptyTubes: { min: 1, max: 3 },
+}
+
+const SETTING_LABELS: Record<keyof BoardSettings, string> = {
+  colorCount: "COLORS",
+  capacity: "CAPACITY",
+  emptyTubes: "EMPTY TUBES",
+}
+
+/**
+ * Modal dialog for choosing the colors, capacity and empty tubes of a custom board
+ */
+export class CustomBoardDialog {
+  private container: Phaser.GameObjects.Container | null = null
+  private inputBlocker: Phaser.GameObjects.Rectangle | null = null
+  private settings: BoardSettings = { colorCount: 0, capacity: 0, emptyTubes: 0 }
+
+  constructor(private readonly game: MainScene) {}
+
+  /**
+   * Show the dialog starting from the given settings
+   * onApply receives the chosen settings; onCancel is called if the dialog is dismissed
+   */
+  public open(
+    initialSettings: BoardSettings,
+    onApply: (settings: BoardSettings) => void,
+    onCancel: () => void
+  ): void {
+    this.close()
+    this.settings = { ...initialSettings }
+
+    // Block clicks from reaching the board while the dialog is open
+    this.inputBlocker = this.game.add
+      .rectangle(APP_WIDTH / 2, this.game.scale.height / 2, APP_WIDTH, this.game.scale.height, 0x000000, 0.6)
+      .setInteractive()
+
+    this.container = this.game.add.container(APP_WIDTH / 2, this.game.scale.height / 2)
+
+    const background = this.game.add
+      .rectangle(0, 0, 380, 280, 0x000000, 0.85)
+      .setStrokeStyle(2, COLORS.DARK_TURQUOISE)
+
+    const title = this.game.add
+      .text(0, -110, "CUSTOM BOARD", {
+        fontSize: "24px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+
+    this.container.add([background, title])
+
+    const keys = Object.keys(SETTING_LABELS) as (keyof BoardSettings)[]
+    keys.forEach((key, index) => this.createSettingRow(key, -55 + index * 50))
+
+    const applyButton = this.createButton(-70, 100, "APPLY", () => {
+      const settings = { ...this.settings }
+      this.close()
+      onApply(settings)
+    })
+    const cancelButton = this.createButton(70, 100, "CANCEL", () => {
+      this.close()
+      onCancel()
+    })
+
+    this.container.add([applyButton, cancelButton])
+  }
+
+  /**
+   * Check if the dialog is showing
+   */
+  public isOpen(): boolean {
+    return this.container !== null
+  }
+
+  /**
+   * Remove the dialog from the scene
+   */
+  public close(): void {
+    this.container?.destroy()
+    this.inputBlocker?.destroy()
+    this.container = null
+    this.inputBlocker = null
+  }
+
+  private createSettingRow(key: keyof BoardSettings, y: number): void {
+    const label = this.game.add
+      .text(-160, y, SETTING_LABELS[key], {
+        fontSize: "18px",
+        fontFamily: "monospace",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0, 0.5)
+
+    const value = this.game.add
+      .text(110, y, String(this.settings[key]), {
+        fontSize: "20px",
+        fontFamily: "monospace",
+        color: HEX_COLORS.KHAKI,
+      })
+      .setOrigin(0.5)
+
+    const changeValue = (delta: number) => {
+      const { min, max } = CUSTOM_BOARD_LIMITS[key]
+      this.settings[key] = Math.min(max, Math.max(min, this.settings[key] + delta))
+      value.setText(String(this.settings[key]))
+    }
+
+    const decreaseButton = this.createButton(65, y, "-", () => changeValue(-1))
+    const increaseButton = this.createButton(155, y, "+", () => changeValue(1))
+
+    this.container?.add([label, value, decreaseButton, increaseButton])
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    onClick: () => void
+  ): Phaser.GameObjects.Text {
+    const button = this.game.add
+      .text(x, y, label, {
+        fontSize: "18px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: { left: 10, right: 10, top: 5, bottom: 5 },
+        color: HEX_COLORS.WHITE,
+        align: "center",
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", onClick)
+      .on("pointerover", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+
+    return button
+  }
+}
@@ -0,0 +1,120 @@
+import { DIFFICULTY } from "@/lib/constants"
+
+const STORAGE_KEY = "water-pour-fun:daily"
+
+/**
+ * Difficulty used for every daily puzzle so all players get the same board
+ */
+export const DAILY_DIFFICULTY: keyof typeof DIFFICULTY = "MEDIUM"
+
+/**
+ * Daily progress persisted in local storage
+ */
+interface DailyProgress {
+  lastCompletedDate: string | null
+  streak: number
+}
+
+/**
+ * Manages the daily challenge: a puzzle seed derived from the calendar date
+ * and the player's completion streak
+ */
+export class DailyChallenge {
+  constructor(private readonly date: Date = new Date()) {}
+
+  /**
+   * Get the date key (YYYY-MM-DD, UTC) for the challenge day
+   */
+  getDateKey(): string {
+    return DailyChallenge.toDateKey(this.date)
+  }
+
+  /**
+   * Derive the puzzle seed from the date so every player gets the same board
+   */
+  getSeed(): number {
+    // FNV-1a hash of the date key
+    const key = `daily-${this.getDateKey()}`
+    let hash = 0x811c9dc5
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Check if today's daily has already been completed
+   */
+  isCompleted(): boolean {
+    return this.loadProgress().lastCompletedDate === this.getDateKey()
+  }
+
+  /**
+   * Get the current streak of consecutive completed days
+   * A streak stays alive until a full day has been missed
+   */
+  getStreak(): number {
+    const progress = this.loadProgress()
+    const today = this.getDateKey()
+    const yesterday = DailyChallenge.toDateKey(this.getPreviousDay())
+
+    if (
+      progress.lastCompletedDate === today ||
+      progress.lastCompletedDate === yesterday
+    ) {
+      return progress.streak
+    }
+    return 0
+  }
+
+  /**
+   * Record today's daily as completed and return the updated streak
+   */
+  markCompleted(): number {
+    if (this.isCompleted()) return this.getStreak()
+
+    const streak = this.getStreak() + 1
+    this.saveProgress({ lastCompletedDate: this.getDateKey(), streak })
+    return streak
+  }
+
+  private getPreviousDay(): Date {
+    const previous = new Date(this.date)
+    previous.setUTCDate(previous.getUTCDate() - 1)
+    return previous
+  }
+
+  private loadProgress(): DailyProgress {
+    const fallback: DailyProgress = { lastCompletedDate: null, streak: 0 }
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY)
+      if (!stored) return fallback
+
+      const parsed = JSON.parse(stored)
+      if (
+        typeof parsed?.lastCompletedDate !== "string" ||
+        typeof parsed?.streak !== "number"
+      ) {
+        return fallback
+      }
+      return parsed
+    } catch (error) {
+      console.warn("Could not read daily progress", error)
+      return fallback
+    }
+  }
+
+  private saveProgress(progress: DailyProgress): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(progress))
+    } catch (error) {
+      console.warn("Could not save daily progress", error)
+    }
+  }
+
+  private static toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10)
+  }
+}
@@ -1,15 +1,18 @@
 import { HEX_COLORS, PADDING_BOX, APP_WIDTH } from "@/lib/constants"
+import { PuzzleRating, Solvability } from "@/lib/types"
 import MainScene from "../scenes/MainScene"
 
 /**
  * Debug information interface
  */
-interface DebugInfo {
+export interface DebugInfo {
   isSolved: boolean;
-  isSolvable: boolean;
+  solvability: Solvability;
   moveCount: number;
   score: number;
   optimalMoveEstimate: number | null;
+  seed: number | null;
+  rating: PuzzleRating | null;
   completedTubes: number;
   totalTubes: number;
 }
@@ -25,10 +28,12 @@ export class DebugManager {
   private debugBackground: Phaser.GameObjects.Rectangle | null = null
   private debugInfo: DebugInfo = {
     isSolved: false,
-    isSolvable: true,
+    solvability: "unknown",
     moveCount: 0,
     score: 0,
     optimalMoveEstimate: null,
+    seed: null,
+    rating: null,
     completedTubes: 0,
     totalTubes: 0
   }
@@ -102,7 +107,7 @@ export class DebugManager {
   private createDebugPanel(): void {
     // Position in top-right corner with some margin
     const x = APP_WIDTH - 150
-    const y = 80
+    const y = 150
 
     // Create container for all debug elements
     this.debugPanel = this.game.add.container(x, y)
@@ -110,11 +115,16 @@ export class DebugManager {
     // Format debug information
     const debugInfo = [
       `DIFFICULTY: ${this.game.difficulty}`,
+      `SEED: ${this.debugInfo.seed ?? 'Unknown'}`,
+      `RATING: ${this.debugInfo.rating?.score ?? 'Unknown'}`,
+      `BRANCHING: ${this.debugInfo.rating?.branchingFactor ?? 'Unknown'}`,
+      `DEAD ENDS: ${this.debugInfo.rating?.deadEnds ?? 'Unknown'}`,
+      `EMPTY TUBE MOVES: ${this.debugInfo.rating?.emptyTubeMoves ?? 'Unknown'}`,
       `SCORE: ${this.debugInfo.score}`,
       `MOVES: ${this.debugInfo.moveCount}`,
       `OPTIMAL MOVES: ${this.debugInfo.optimalMoveEstimate || 'Unknown'}`,
       `COMPLETED TUBES: ${this.debugInfo.completedTubes}/${this.debugInfo.totalTubes}`,
-      `IS SOLVABLE: ${this.debugInfo.isSolvable}`,
+      `SOLVABILITY: ${this.debugInfo.solvability.toUpperCase()}`,
       `IS SOLVED: ${this.debugInfo.isSolved}`,
     ].join("\n")
 
@@ -123,7 +133,7 @@ export class DebugManager {
       0,
       0,
       250,
-      160,
+      260,
       0x000000,
       0.7
     )
@@ -0,0 +1,66 @@
+import { Move, PuzzleRating, SearchStats } from "@/lib/types"
+
+// How much each solver metric adds to the difficulty score
+const RATING_WEIGHTS = {
+  optimalMoves: 0.2,
+  branchingFactor: 0.75,
+  deadEnds: 0.5,
+  emptyTubeMoves: 0.75,
+}
+
+const MIN_RATING = 1
+const MAX_RATING = 10
+
+/**
+ * Rate how hard a puzzle is from its optimal solution and the solver's search
+ *
+ * Longer solutions, more moves to choose between at each step, search
+ * branches that run out of moves and having to park colors in empty tubes
+ * all make a puzzle harder.
+ */
+export function ratePuzzle(
+  tubeColors: number[][],
+  solution: Move[],
+  stats: SearchStats
+): PuzzleRating {
+  const optimalMoves = solution.length
+  const branchingFactor =
+    stats.expandedStates > 0 ? stats.branches / stats.expandedStates : 0
+  const emptyTubeMoves = countEmptyTubeMoves(tubeColors, solution)
+
+  const rawScore =
+    optimalMoves * RATING_WEIGHTS.optimalMoves +
+    Math.max(branchingFactor - 1, 0) * RATING_WEIGHTS.branchingFactor +
+    Math.log2(1 + stats.deadEnds) * RATING_WEIGHTS.deadEnds +
+    emptyTubeMoves * RATING_WEIGHTS.emptyTubeMoves
+
+  return {
+    score: Math.min(
+      MAX_RATING,
+      Math.max(MIN_RATING, Math.round(rawScore * 10) / 10)
+    ),
+    optimalMoves,
+    branchingFactor: Math.round(branchingFactor * 100) / 100,
+    deadEnds: stats.deadEnds,
+    emptyTubeMoves,
+  }
+}
+
+/**
+ * Count the moves in a solution that pour into an empty tube
+ */
+function countEmptyTubeMoves(tubeColors: number[][], solution: Move[]): number {
+  const tubes = tubeColors.map((colors) => [...colors])
+  let count = 0
+
+  for (const move of solution) {
+    if (tubes[move.toIndex].length === 0) count++
+
+    tubes[move.fromIndex].splice(-move.count, move.count)
+    for (let i = 0; i < move.count; i++) {
+      tubes[move.toIndex].push(move.color)
+    }
+  }
+
+  return count
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest"
+import type { Tube } from "../objects/Tube"
+import { DragControls, DragControlsHandlers } from "./DragControls"
+
+// Tubes 100 apart, each hit within 30 of its center
+const createTube = (x: number) => ({
+  containsPoint: (pointX: number) => Math.abs(pointX - x) <= 30,
+  startDrag: vi.fn(),
+  moveDrag: vi.fn(),
+  endDrag: vi.fn(),
+  setDropTarget: vi.fn(),
+})
+
+const pointer = (x: number, y: number) =>
+  ({ x, y, downX: 100, downY: 300 }) as Phaser.Input.Pointer
+
+function setup(selectedIndex: number | null) {
+  const tubes = [createTube(100), createTube(200), createTube(300)]
+  const handlers: DragControlsHandlers = {
+    getTubes: () => tubes as unknown as Tube[],
+    getSelectedTubeIndex: () => selectedIndex,
+    // Only the middle tube takes a pour
+    canPour: (_fromIndex, toIndex) => toIndex === 1,
+    dropOn: vi.fn(),
+    cancel: vi.fn(),
+    isBlocked: () => false,
+  }
+  const controls = new DragControls({} as Phaser.Scene, handlers)
+  const asTube = (index: number) => tubes[index] as unknown as Tube
+
+  return { tubes, handlers, controls, asTube }
+}
+
+describe("DragControls", () => {
+  it("carries the selected tube and marks which tubes would take the pour", () => {
+    const { tubes, controls, asTube } = setup(0)
+
+    controls.onDragStart(asTube(0))
+    expect(tubes[0].startDrag).toHaveBeenCalled()
+    expect(tubes[1].setDropTarget).toHaveBeenLastCalledWith({ canPour: true, hovered: false })
+    expect(tubes[2].setDropTarget).toHaveBeenLastCalledWith({ canPour: false, hovered: false })
+
+    controls.onDrag(asTube(0), pointer(310, 300))
+    expect(tubes[0].moveDrag).toHaveBeenLastCalledWith(210, 0)
+    expect(tubes[2].setDropTarget).toHaveBeenLastCalledWith({ canPour: false, hovered: true })
+  })
+
+  it("pours into the tube it's dropped on", () => {
+    const { tubes, handlers, controls, asTube } = setup(0)
+
+    controls.onDragStart(asTube(0))
+    controls.onDragEnd(asTube(0), pointer(190, 280))
+
+    expect(tubes[0].endDrag).toHaveBeenCalled()
+    expect(tubes[1].setDropTarget).toHaveBeenLastCalledWith(null)
+    expect(handlers.dropOn).toHaveBeenCalledWith(asTube(1))
+  })
+
+  it("puts the tube down when dropped away from the others", () => {
+    const { handlers, controls, asTube } = setup(0)
+
+    controls.onDragStart(asTube(0))
+    controls.onDragEnd(asTube(0), pointer(600, 300))
+
+    expect(handlers.dropOn).not.toHaveBeenCalled()
+    expect(handlers.cancel).toHaveBeenCalled()
+  })
+
+  it("ignores drags from a tube the press didn't select", () => {
+    const { tubes, handlers, controls, asTube } = setup(null)
+
+    controls.onDragStart(asTube(0))
+    controls.onDragEnd(asTube(0), pointer(200, 300))
+
+    expect(tubes[0].startDrag).not.toHaveBeenCalled()
+    expect(handlers.dropOn).not.toHaveBeenCalled()
+  })
+})
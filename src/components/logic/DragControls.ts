@@ -0,0 +1,130 @@
+import type { Tube, TubeDragListener } from "../objects/Tube"
+
+// How far the pointer has to move before a press becomes a drag, so taps
+// still count as clicks
+const DRAG_DISTANCE_THRESHOLD = 10
+
+/**
+ * What the drag controls can do in the scene that owns them
+ */
+export interface DragControlsHandlers {
+  getTubes: () => Tube[]
+  getSelectedTubeIndex: () => number | null
+  canPour: (fromIndex: number, toIndex: number) => boolean
+  // Pour the selected tube into this one, as a second click would
+  dropOn: (tube: Tube) => void
+  // Put the selected tube down without pouring
+  cancel: () => void
+  // True while a dialog, replay or game over screen should take the input instead
+  isBlocked: () => boolean
+}
+
+/**
+ * Lets the player pick a tube up, carry it over another and let go to pour
+ *
+ * Pressing a tube selects it like a click does, so a drag only carries the
+ * tube that press selected. The other tubes show in green or red whether
+ * they would take the pour while it's carried.
+ */
+export class DragControls implements TubeDragListener {
+  private dragIndex: number | null = null
+  private targetIndex: number | null = null
+
+  constructor(
+    private readonly scene: Phaser.Scene,
+    private readonly handlers: DragControlsHandlers
+  ) {}
+
+  /**
+   * Start telling drags apart from clicks
+   */
+  public enable(): void {
+    this.scene.input.dragDistanceThreshold = DRAG_DISTANCE_THRESHOLD
+  }
+
+  /**
+   * Drop any tube being carried without pouring, e.g. before the tubes are rebuilt
+   */
+  public cancel(): void {
+    if (this.dragIndex === null) return
+
+    const tubes = this.handlers.getTubes()
+    tubes[this.dragIndex]?.endDrag(0)
+    this.clearDropTargets(tubes)
+    this.dragIndex = null
+    this.targetIndex = null
+  }
+
+  public onDragStart(tube: Tube): void {
+    const tubes = this.handlers.getTubes()
+    const index = tubes.indexOf(tube)
+    if (this.handlers.isBlocked() || index !== this.handlers.getSelectedTubeIndex()) return
+
+    this.dragIndex = index
+    this.targetIndex = null
+    tube.startDrag()
+
+    tubes.forEach((other, otherIndex) => {
+      if (otherIndex === index) return
+      other.setDropTarget({ canPour: this.handlers.canPour(index, otherIndex), hovered: false })
+    })
+  }
+
+  public onDrag(tube: Tube, pointer: Phaser.Input.Pointer): void {
+    const tubes = this.handlers.getTubes()
+    const dragIndex = this.dragIndex
+    if (dragIndex === null || tubes[dragIndex] !== tube) return
+
+    tube.moveDrag(pointer.x - pointer.downX, pointer.y - pointer.downY)
+
+    const targetIndex = this.findTargetIndex(tubes, pointer.x, pointer.y)
+    if (targetIndex === this.targetIndex) return
+
+    // Only the tubes whose hover changed need redrawing
+    for (const index of [this.targetIndex, targetIndex]) {
+      if (index === null) continue
+      tubes[index].setDropTarget({
+        canPour: this.handlers.canPour(dragIndex, index),
+        hovered: index === targetIndex,
+      })
+    }
+    this.targetIndex = targetIndex
+  }
+
+  public onDragEnd(tube: Tube, pointer: Phaser.Input.Pointer): void {
+    const tubes = this.handlers.getTubes()
+    const dragIndex = this.dragIndex
+    if (dragIndex === null || tubes[dragIndex] !== tube) return
+
+    const targetIndex = this.findTargetIndex(tubes, pointer.x, pointer.y)
+    tube.endDrag()
+    this.clearDropTargets(tubes)
+    this.dragIndex = null
+    this.targetIndex = null
+
+    // The selection may have changed under the drag, e.g. by an undo key
+    if (this.handlers.getSelectedTubeIndex() !== dragIndex) return
+
+    if (targetIndex === null) {
+      this.handlers.cancel()
+    } else {
+      this.handlers.dropOn(tubes[targetIndex])
+    }
+  }
+
+  /**
+   * Index of the tube under the pointer other than the one being carried
+   */
+  private findTargetIndex(tubes: Tube[], x: number, y: number): number | null {
+    const index = tubes.findIndex(
+      (tube, tubeIndex) => tubeIndex !== this.dragIndex && tube.containsPoint(x, y)
+    )
+    return index === -1 ? null : index
+  }
+
+  private clearDropTargets(tubes: Tube[]): void {
+    tubes.forEach((tube, index) => {
+      if (index !== this.dragIndex) tube.setDropTarget(null)
+    })
+  }
+}
@@ -1,365 +1,213 @@
-import { shuffle } from "lodash"
 import { Tube } from "../objects/Tube"
 import * as Phaser from "phaser"
-import { DebugManager } from "./DebugManager"
-
-interface GameScene extends Phaser.Scene {
-  isSolvable?: boolean
-  debugManager?: DebugManager
-}
-
-interface GameState {
-  solved: boolean
-  solvable: boolean
-  score: number
-}
-
-interface MinimalTube {
-  colors: number[]
-  maxHeight: number
-  isEmpty(): boolean
-  isCompleted(): boolean
-  getTopColor(): number | null
-  getConsecutiveTopColors(): number
-  removeTopColors(count: number): void
-  addColors(color: number, count: number): void
-}
-
-interface PourAttempt {
-  canPour: boolean
-  segmentsToPour: number
-}
-
-// Add a new interface for tracking moves
-interface Move {
-  fromIndex: number;
-  toIndex: number;
-  color: number;
-  count: number;
-}
-
-// Add a new interface for scoring metrics
-interface ScoreMetrics {
-  moveCount: number;
-  optimalMoveCount: number | null;
-  completedTubes: number;
-  totalTubes: number;
-  startTime: number;
-  currentTime: number;
-}
-
-const MAX_BFS_STATES = 500000 // Increased from 100000 to allow for more thorough search
-
+import { DebugInfo } from "./DebugManager"
+import { BoardAnalyzer, PuzzleEngine, ScoreMetrics, SetupOptions } from "./PuzzleEngine"
+import { parsePuzzle } from "./PuzzleFormat"
+import { SolverClient } from "./SolverClient"
+import {
+  HistoryState,
+  Move,
+  PuzzleDefinition,
+  PuzzleRating,
+  SolverResult,
+} from "@/lib/types"
+
+export type { SetupOptions } from "./PuzzleEngine"
+
+/**
+ * Connects the puzzle engine to the tubes on screen
+ *
+ * Turns tube clicks into pours, keeps the tubes drawn in step with the
+ * engine's board, runs solvability checks in the background solver and
+ * reports progress to the scene through events.
+ */
 export class GameLogic {
   private tubes: Tube[] = []
+  private engine = new PuzzleEngine()
   private selectedTubeIndex: number | null = null
   private events: Phaser.Events.EventEmitter
-  private setupAttempts = 0
-  // Add move history array to track moves
-  private moveHistory: Move[] = []
-  // Add scoring metrics
-  private scoreMetrics: ScoreMetrics = {
-    moveCount: 0,
-    optimalMoveCount: null,
-    completedTubes: 0,
-    totalTubes: 0,
-    startTime: 0,
-    currentTime: 0
-  }
-  // Add current score
-  private currentScore: number = 0
-
-  constructor(private scene: GameScene) {
+  // Background solver used while playing, so checks don't stall the game loop
+  private solverClient = new SolverClient()
+  // Background solver request for the current board, if one is running
+  private pendingCheck: {
+    id: number
+    stateHash: string
+    result: Promise<SolverResult | null>
+  } | null = null
+  // Background solver request rating the starting board of a loaded puzzle, if any
+  private pendingRating: {
+    id: number
+    stateHash: string
+    result: Promise<SolverResult | null>
+  } | null = null
+  // Puzzle generation running in the background solver, if any
+  private generation: { requestId: number | null; cancelled: boolean } | null = null
+  // Board the player got stuck on, if any
+  private stuckStateHash: string | null = null
+  // Move currently highlighted as a hint, if any
+  private hintMove: Move | null = null
+
+  constructor() {
     this.events = new Phaser.Events.EventEmitter()
   }
 
   /**
    * Set up the game with the provided tubes
+   * The puzzle is generated in the background solver; resolves with false if
+   * the tubes can't hold a puzzle or another puzzle is started meanwhile
    */
-  setup(tubes: Tube[]): boolean {
+  async setup(tubes: Tube[], options: SetupOptions = {}): Promise<boolean> {
     this.tubes = tubes
-    // Initialize scoring metrics
-    this.scoreMetrics = {
-      moveCount: 0,
-      optimalMoveCount: null,
-      completedTubes: 0,
-      totalTubes: tubes.length,
-      startTime: Date.now(),
-      currentTime: Date.now()
-    }
-    this.currentScore = 0
-    const result = this.generateSolvablePuzzle()
-    
-    // Estimate optimal move count after generating puzzle
-    this.estimateOptimalMoveCount()
-    
-    return result
-  }
+    this.selectedTubeIndex = null
+    this.hintMove = null
 
-  /**
-   * Generate a solvable puzzle
-   */
-  private generateSolvablePuzzle(): boolean {
-    this.generateSolvablePuzzleFromSolvedState()
+    const result = await this.generatePuzzle((analyze) =>
+      this.engine.setupAsync(tubes.length, tubes[0]?.maxHeight ?? 0, options, analyze)
+    )
+    if (result === null) return false
+
+    this.syncTubes()
     this.events.emit("gameSetup")
-    
-    // Update the game state to ensure debug info is current
+
+    this.emitHistoryChange()
     this.updateGameState()
-    
-    return true
-  }
 
-  /**
-   * Generate a solvable puzzle by starting from a solved state and applying random valid moves in reverse
-   */
-  private generateSolvablePuzzleFromSolvedState(): void {
-    if (!this.validateTubes()) return
-
-    const tubeCount = this.tubes.length
-    const tubeHeight = this.tubes[0].maxHeight
-    const colorCount = tubeCount - 1 // One tube will be empty
-    
-    // Maximum number of attempts to generate a solvable puzzle
-    const maxAttempts = 5
-    let attempts = 0
-    let isSolvable = false
-    
-    while (!isSolvable && attempts < maxAttempts) {
-      attempts++
-      
-      // 1. Start with a solved state: each color fills exactly one tube
-      this.clearTubes()
-
-      // Fill each tube with a single color (except for the last tube which remains empty)
-      for (let i = 0; i < colorCount; i++) {
-        const color = i
-        this.tubes[i].colors = Array(tubeHeight).fill(color)
-        this.tubes[i].draw()
-      }
-
-      // Last tube is empty
-      this.tubes[colorCount].colors = []
-      this.tubes[colorCount].draw()
-
-      // 2. Apply random moves in reverse to shuffle the puzzle
-      // Number of random moves determines difficulty
-      const shuffleMoves = tubeHeight * tubeCount * 2 // Adjust for desired difficulty
-
-      for (let move = 0; move < shuffleMoves; move++) {
-        this.applyRandomReversePour()
-      }
-      
-      // Verify that the generated puzzle is solvable
-      isSolvable = this.isSolvable()
-    }
-    
-    // If we couldn't generate a solvable puzzle after maxAttempts, 
-    // create a simple solvable puzzle (almost solved state)
-    if (!isSolvable) {
-      console.warn("Could not generate a complex solvable puzzle after multiple attempts. Creating a simpler puzzle.")
-      this.createSimpleSolvablePuzzle(tubeCount, tubeHeight, colorCount)
-    }
+    return result
   }
-  
+
   /**
-   * Create a simple solvable puzzle (almost solved state with just a few moves needed)
+   * Set up the game with the provided tubes showing a given puzzle, without
+   * generating one first
+   * Returns false if the puzzle doesn't fit the tubes or a move is invalid
    */
-  private createSimpleSolvablePuzzle(tubeCount: number, tubeHeight: number, colorCount: number): void {
-    // Start with a solved state
-    this.clearTubes()
-    
-    // Fill each tube with a single color (except for the last tube which remains empty)
-    for (let i = 0; i < colorCount; i++) {
-      const color = i
-      this.tubes[i].colors = Array(tubeHeight).fill(color)
-      this.tubes[i].draw()
-    }
-    
-    // Last tube is empty
-    this.tubes[colorCount].colors = []
-    this.tubes[colorCount].draw()
-    
-    // Apply just a few random reverse pours to make it slightly challenging but definitely solvable
-    const simpleMoves = Math.min(5, tubeHeight)
-    
-    for (let move = 0; move < simpleMoves; move++) {
-      this.applyRandomReversePour()
-    }
+  setupPuzzle(tubes: Tube[], puzzle: PuzzleDefinition): boolean {
+    this.tubes = tubes
+    this.selectedTubeIndex = null
+    this.hintMove = null
+
+    if (!this.loadPuzzle(puzzle)) return false
+    this.events.emit("gameSetup")
+
+    return true
   }
 
   /**
-   * Apply a random valid reverse pour (moving liquid from one tube to another)
+   * Reset the game state with a new puzzle
+   * Resolves like setup once the puzzle has been generated
    */
-  private applyRandomReversePour(): void {
-    const tubeCount = this.tubes.length
-    const validMoves: { fromIndex: number; toIndex: number; count: number }[] =
-      []
-
-    // Find all valid reverse pours
-    for (let fromIndex = 0; fromIndex < tubeCount; fromIndex++) {
-      const fromTube = this.tubes[fromIndex]
+  async reset(options: SetupOptions = {}): Promise<boolean> {
+    this.clearSelection()
+    this.clearHint()
 
-      // Skip if source tube is empty
-      if (fromTube.isEmpty()) continue
+    const result = await this.generatePuzzle((analyze) =>
+      this.engine.resetAsync(options, analyze)
+    )
+    if (result === null) return false
 
-      for (let toIndex = 0; toIndex < tubeCount; toIndex++) {
-        if (fromIndex === toIndex) continue // Can't pour to the same tube
+    this.syncTubes()
 
-        const toTube = this.tubes[toIndex]
-        const fromTopColor = fromTube.getTopColor()
+    // Notify about history change
+    this.emitHistoryChange()
+    // Update the game state to ensure debug info is current
+    this.updateGameState()
 
-        if (fromTopColor === null) continue
+    return result
+  }
 
-        // In a reverse pour, we're checking if this pour would have been valid in the forward direction
-        // A pour is valid if the destination has space and either is empty or has matching top color
-        if (toTube.colors.length < toTube.maxHeight) {
-          // For a reverse pour, we only need to move one segment at a time
-          // as we're constructing a path backwards
-          validMoves.push({
-            fromIndex,
-            toIndex,
-            count: 1, // Move just one segment at a time for reverse pours
-          })
-        }
-      }
+  /**
+   * Load a puzzle from its text representation and replay its recorded moves
+   * Returns false if the text is invalid or doesn't fit the current tubes
+   */
+  loadState(text: string): boolean {
+    let puzzle: PuzzleDefinition
+    try {
+      puzzle = parsePuzzle(text)
+    } catch (error) {
+      console.error("Could not parse puzzle", error)
+      return false
     }
 
-    // If there are valid moves, pick one randomly and apply it
-    if (validMoves.length > 0) {
-      const randomMove =
-        validMoves[Math.floor(Math.random() * validMoves.length)]
-      const fromTube = this.tubes[randomMove.fromIndex]
-      const toTube = this.tubes[randomMove.toIndex]
-      const color = fromTube.getTopColor()
-
-      if (color !== null) {
-        fromTube.removeTopColors(randomMove.count)
-        toTube.addColors(color, randomMove.count)
-        fromTube.draw()
-        toTube.draw()
-      }
-    }
+    return this.loadPuzzle(puzzle)
   }
 
   /**
-   * Reset the game state
+   * Load a parsed puzzle and replay its recorded moves
+   * Returns false if the puzzle doesn't fit the current tubes or a move is invalid
    */
-  reset(): boolean {
-    this.clearSelection()
-    this.generateSolvablePuzzleFromSolvedState()
-    
-    // Double-check that the generated puzzle is solvable
-    if (!this.isSolvable()) {
-      console.warn("Generated puzzle is not solvable after reset. Trying again with a simpler puzzle.")
-      const tubeCount = this.tubes.length
-      const tubeHeight = this.tubes[0].maxHeight
-      const colorCount = tubeCount - 1
-      this.createSimpleSolvablePuzzle(tubeCount, tubeHeight, colorCount)
+  loadPuzzle(puzzle: PuzzleDefinition): boolean {
+    if (
+      puzzle.tubes.length !== this.tubes.length ||
+      puzzle.capacity !== this.tubes[0]?.maxHeight
+    ) {
+      console.error(
+        `Puzzle needs ${puzzle.tubes.length} tubes of capacity ${puzzle.capacity}`
+      )
+      return false
     }
-    
-    // Clear move history when game is reset
-    this.moveHistory = []
-    // Notify about history change
-    this.events.emit("historyChange", this.moveHistory.length)
-    // Update the game state to ensure debug info is current
+
+    if (!this.engine.load(puzzle)) return false
+
+    this.cancelGeneration()
+    this.clearSelection()
+    this.clearHint()
+    this.syncTubes()
+    this.ratePuzzle()
+
+    this.emitHistoryChange()
     this.updateGameState()
-    
-    // Reset scoring metrics
-    this.scoreMetrics = {
-      moveCount: 0,
-      optimalMoveCount: this.scoreMetrics.optimalMoveCount, // Keep the optimal estimate
-      completedTubes: 0,
-      totalTubes: this.tubes.length,
-      startTime: Date.now(),
-      currentTime: Date.now()
-    }
-    
-    this.currentScore = 0;
-    this.updateGameState();
-    
+
     return true
   }
 
   /**
-   * Clear the current tube selection
+   * Export the current puzzle as text, by default including the moves played so far
    */
-  private clearSelection(): void {
-    if (this.selectedTubeIndex !== null) {
-      this.tubes[this.selectedTubeIndex].setSelected(false)
-      this.selectedTubeIndex = null
-    }
+  exportState(options: { includeMoves?: boolean } = {}): string {
+    return this.engine.exportState(options)
   }
 
   /**
-   * Mix colors in the tubes to create a new puzzle
+   * Copy the engine's tube colors onto the tubes on screen and redraw them
    */
-  private mixColors(): void {
-    if (!this.validateTubes()) return
+  private syncTubes(indexes?: number[]): void {
+    const tubeColors = this.engine.getTubeColors()
 
-    const tubeCount = this.tubes.length
-    const tubeHeight = this.tubes[0].maxHeight
-
-    const colorGroups = this.generateColorGroups(tubeCount, tubeHeight)
-    const mixedColors = shuffle(colorGroups.flat())
-
-    this.clearTubes()
-    this.distributeMixedColors(mixedColors, tubeCount, tubeHeight)
+    for (const index of indexes ?? tubeColors.map((_, i) => i)) {
+      this.tubes[index].colors = tubeColors[index]
+      this.tubes[index].draw()
+    }
   }
 
   /**
-   * Validates that tubes array is valid for the game
+   * Clear the current tube selection
    */
-  private validateTubes(): boolean {
-    if (!this.tubes.length || !this.tubes[0]) {
-      console.error("No tubes available for mixing colors")
-      return false
+  private clearSelection(): void {
+    if (this.selectedTubeIndex !== null) {
+      this.tubes[this.selectedTubeIndex].setSelected(false)
+      this.selectedTubeIndex = null
+      this.events.emit("selectionChange", null)
     }
-    return true
   }
 
   /**
-   * Generate color groups for the puzzle
+   * Get the index of the tube waiting to be poured from, if any
    */
-  private generateColorGroups(
-    tubeCount: number,
-    tubeHeight: number
-  ): number[][] {
-    // Enough colors to fill all but one tube (empty tube)
-    const colorCount = tubeCount - 1
-
-    // Create arrays of each color, with tubeHeight instances of each
-    return Array.from({ length: colorCount }, (_, i) =>
-      Array.from({ length: tubeHeight }, () => i)
-    )
+  getSelectedTubeIndex(): number | null {
+    return this.selectedTubeIndex
   }
 
   /**
-   * Clear all tubes of their colors
+   * Check if a pour between two tubes is allowed, without making it
    */
-  private clearTubes(): void {
-    this.tubes.forEach((tube) => {
-      tube.colors = []
-    })
+  canPour(fromIndex: number, toIndex: number): boolean {
+    return this.engine.getPour(fromIndex, toIndex) !== null
   }
 
   /**
-   * Distribute mixed colors to tubes
+   * Put down the selected tube without pouring
    */
-  private distributeMixedColors(
-    mixedColors: number[],
-    tubeCount: number,
-    tubeHeight: number
-  ): void {
-    // Assign new colors to tubes
-    for (let i = 0; i < tubeCount - 1; i++) {
-      const tubeColors = mixedColors.splice(0, tubeHeight)
-      this.tubes[i].colors = tubeColors
-      this.tubes[i].draw()
-    }
-
-    // Ensure the last tube is empty
-    this.tubes[tubeCount - 1].colors = []
-    this.tubes[tubeCount - 1].draw()
+  cancelSelection(): void {
+    this.clearSelection()
   }
 
   /**
@@ -369,6 +217,8 @@ export class GameLogic {
     const tubeIndex = this.findTubeIndex(tube)
     if (tubeIndex === -1) return
 
+    this.clearHint()
+
     if (this.selectedTubeIndex === null) {
       this.handleFirstTubeClick(tube, tubeIndex)
     } else {
@@ -396,9 +246,12 @@ export class GameLogic {
    */
   private handleFirstTubeClick(tube: Tube, tubeIndex: number): void {
     // First click: select the tube if not empty
-    if (!tube.isEmpty()) {
+    if (!this.engine.isTubeEmpty(tubeIndex)) {
       this.selectedTubeIndex = tubeIndex
       tube.setSelected(true)
+      this.events.emit("selectionChange", tubeIndex)
+    } else {
+      this.events.emit("selectionRejected", tubeIndex)
     }
   }
 
@@ -411,450 +264,293 @@ export class GameLogic {
     // Second click: attempt to pour if not the same tube
     if (this.selectedTubeIndex !== tubeIndex) {
       const success = this.pour(this.selectedTubeIndex, tubeIndex)
-      if (success) {
-        this.events.emit("pourCompleted", {
-          fromIndex: this.selectedTubeIndex,
-          toIndex: tubeIndex,
-        })
-      }
+      this.events.emit(success ? "pourCompleted" : "pourRejected", {
+        fromIndex: this.selectedTubeIndex,
+        toIndex: tubeIndex,
+      })
     }
 
     // Clear selection
     this.clearSelection()
   }
 
-  /**
-   * Update the game state and emit appropriate events
-   */
-  private updateGameState(): void {
-    const gameState = this.checkGameState()
-    
-    // Calculate score
-    const score = this.calculateScore();
-    
-    // Update the scene's score property if it exists
-    if ('score' in this.scene) {
-      this.scene.score = score;
-    }
-    
-    // Emit score update event
-    this.events.emit("scoreUpdate", score);
-    
-    // Update debug info
-    if (this.scene.debugManager) {
-      this.scene.debugManager.updateDebugInfo({
-        isSolved: gameState.solved,
-        isSolvable: gameState.solvable,
-        moveCount: this.moveHistory.length,
-        score: score,
-        optimalMoveEstimate: this.scoreMetrics.optimalMoveCount,
-        completedTubes: this.scoreMetrics.completedTubes,
-        totalTubes: this.scoreMetrics.totalTubes
-      })
-    }
-
-    // Handle game state changes
-    if (gameState.solved) {
-      // Calculate final score with a completion bonus
-      const finalScore = Math.round(score * 1.2); // 20% bonus for completing the puzzle
-      
-      // Update the scene's score
-      if ('score' in this.scene) {
-        this.scene.score = finalScore;
-      }
-      
-      // Emit final score update
-      this.events.emit("scoreUpdate", finalScore);
-      
-      // Emit game solved event with the final score
-      this.events.emit("gameSolved", finalScore);
-      
-      // Call the game over method on the scene if it exists
-      if ('gameOver' in this.scene && typeof this.scene.gameOver === 'function') {
-        this.scene.gameOver(true);
-      }
-    } else if (!gameState.solvable) {
-      // Emit game not solvable event
-      this.events.emit("gameNotSolvable");
-      
-      // Call the game over method on the scene if it exists
-      if ('gameOver' in this.scene && typeof this.scene.gameOver === 'function') {
-        this.scene.gameOver(false);
-      }
-    }
-  }
-
   /**
    * Pour liquid from one tube to another
    * Returns true if pour was successful
    */
   private pour(fromIndex: number, toIndex: number): boolean {
-    const fromTube = this.tubes[fromIndex]
-    const toTube = this.tubes[toIndex]
-
-    const pourAttempt = this.calculatePourAttempt(fromTube, toTube)
-
-    if (!pourAttempt.canPour) return false
-
-    // Calculate how many segments we can actually pour (limited by available space)
-    const topFromColor = fromTube.getTopColor()
-    if (topFromColor === null) return false
+    if (!this.engine.pour(fromIndex, toIndex)) return false
 
-    const spaceAvailable = toTube.maxHeight - toTube.colors.length
-    const segmentsToActuallyPour = Math.min(
-      pourAttempt.segmentsToPour,
-      spaceAvailable
-    )
-
-    // Trigger the visual pour animation if available
-    if (typeof fromTube.pourTo === 'function') {
-      fromTube.pourTo(toTube)
-    }
+    // The tubes still show the board before the pour, so animate from them
+    this.tubes[fromIndex].pourTo(this.tubes[toIndex])
+    this.syncTubes([fromIndex, toIndex])
+    this.emitHistoryChange()
 
-    // Execute the pour
-    this.executePour(fromTube, toTube, topFromColor, segmentsToActuallyPour)
-    
-    // After successful pour, update the score
-    this.updateGameState();
-    
     return true
   }
 
   /**
-   * Calculate if a pour attempt is valid and how many segments can be poured
+   * Update the game state and emit appropriate events
    */
-  private calculatePourAttempt(fromTube: Tube, toTube: Tube): PourAttempt {
-    if (fromTube.isEmpty()) {
-      return { canPour: false, segmentsToPour: 0 }
+  private updateGameState(): void {
+    // Any running check is for an older board unless only the solver can tell
+    if (this.engine.getKnownSolvability() === null) {
+      this.requestSolverCheck()
+    } else {
+      this.cancelSolverCheck()
     }
 
-    const topFromColor = fromTube.getTopColor()
-    if (topFromColor === null) {
-      return { canPour: false, segmentsToPour: 0 }
+    const gameState = this.engine.checkGameState()
+    if (gameState.solvability !== "unsolvable") {
+      this.clearStuck()
     }
 
-    const segmentsToPour = fromTube.getConsecutiveTopColors()
-    const toTopColor = toTube.getTopColor()
-    const spaceAvailable = toTube.maxHeight - toTube.colors.length
+    const metrics = this.engine.getScoringMetrics()
+    this.events.emit("scoreUpdate", gameState.score)
+    this.events.emit("stateChange", {
+      isSolved: gameState.solved,
+      solvability: gameState.solvability,
+      moveCount: this.engine.getMoveCount(),
+      score: gameState.score,
+      optimalMoveEstimate: metrics.optimalMoveCount,
+      seed: this.engine.getSeed(),
+      rating: this.engine.getRating(),
+      completedTubes: metrics.completedTubes,
+      totalTubes: metrics.totalTubes,
+    } satisfies DebugInfo)
+
+    // Handle game state changes
+    if (gameState.solved) {
+      // Calculate final score with a completion bonus
+      const finalScore = Math.round(gameState.score * 1.2) // 20% bonus for completing the puzzle
 
-    // Can only pour if destination has enough space and color matches or is empty
-    const canPour =
-      spaceAvailable > 0 && (toTopColor === null || toTopColor === topFromColor)
+      // Emit final score update
+      this.events.emit("scoreUpdate", finalScore)
 
-    return { canPour, segmentsToPour }
+      // Emit game solved event with the final score
+      this.events.emit("gameSolved", finalScore)
+    } else if (gameState.solvability === "unsolvable") {
+      // Emit game not solvable event
+      this.events.emit("gameNotSolvable")
+
+      // Let the player undo their way out instead of ending the game
+      this.reportStuck()
+    }
   }
 
   /**
-   * Execute a pour from one tube to another
+   * Tell the scene the player is stuck and how many moves to undo to recover
    */
-  private executePour(
-    fromTube: Tube,
-    toTube: Tube,
-    color: number,
-    count: number
-  ): void {
-    // Remove colors from source tube
-    fromTube.removeTopColors(count)
-
-    // Add colors to destination tube
-    toTube.addColors(color, count)
+  private reportStuck(): void {
+    const stateHash = this.engine.getStateHash()
+    if (this.stuckStateHash === stateHash) return
 
-    // Redraw tubes
-    fromTube.draw()
-    toTube.draw()
-
-    // Animate the pour
-    fromTube.pourTo(toTube)
-
-    // Add to move history
-    this.moveHistory.push({
-      fromIndex: this.tubes.indexOf(fromTube),
-      toIndex: this.tubes.indexOf(toTube),
-      color,
-      count,
-    })
-
-    // Update move count in score metrics
-    this.scoreMetrics.moveCount = this.moveHistory.length;
-
-    // Emit history change event
-    this.events.emit("historyChange", this.moveHistory.length)
+    this.stuckStateHash = stateHash
+    this.engine
+      .findRecoveryDepth(
+        (colors) =>
+          this.solverClient.solve(colors, this.engine.getCapacity()).result
+      )
+      .then((undoCount) => {
+        // The player may have moved on while the earlier boards were checked
+        if (this.stuckStateHash !== stateHash) return
 
-    // Check if the game is solved
-    if (this.isSolved()) {
-      this.events.emit("gameSolved")
-    }
+        this.events.emit("gameStuck", undoCount)
+      })
   }
 
   /**
-   * Check the current game state
+   * Clear the stuck state once the board can be solved again
    */
-  checkGameState(): GameState {
-    const solved = this.isSolved()
-    const solvable = this.isSolvable()
-    const score = this.calculateScore()
-    
-    return {
-      solved,
-      solvable,
-      score
-    }
+  private clearStuck(): void {
+    if (this.stuckStateHash === null) return
+
+    this.stuckStateHash = null
+    this.events.emit("gameUnstuck")
   }
 
   /**
    * Check if the game is solved
    */
   isSolved(): boolean {
-    // Game is solved if all tubes are either empty or contain the same color up to the max height
-    return this.tubes.every((tube) => tube.isCompleted())
+    return this.engine.isSolved()
   }
 
   /**
    * Check if the current game state is solvable
-   * Uses a breadth-first search to explore possible game states
+   * Runs the solver on the main thread if the answer isn't known yet
    */
   isSolvable(): boolean {
-    if (!this.tubes.length) return false
-
-    // Convert the actual tubes to minimal tubes
-    const tubeMaxHeight = this.tubes[0].maxHeight
-    const initialTubes = this.tubes.map((tube) =>
-      this.createMinimalTube(tube.colors, tubeMaxHeight)
-    )
-
-    // Check for quick exit conditions
-    if (this.isAlreadySolved(initialTubes)) return true
-    if (!this.hasValidColorCounts(initialTubes, tubeMaxHeight)) return false
-
-    // Perform BFS to check solvability
-    return this.performSolvabilityBFS(initialTubes, tubeMaxHeight)
+    return this.engine.isSolvable()
   }
 
   /**
-   * Check if the state is already solved
+   * Find the shortest sequence of moves that solves the current tubes
+   * Returns null if the puzzle is unsolvable or too large to search
    */
-  private isAlreadySolved(tubes: MinimalTube[]): boolean {
-    return tubes.every((tube) => tube.isCompleted())
+  findOptimalSolution(): Move[] | null {
+    return this.engine.findOptimalSolution()
   }
 
   /**
-   * Check if all colors have the correct counts
+   * Get the difficulty rating of the current puzzle's starting board
+   * Returns null if the puzzle could not be solved or hasn't been rated yet
    */
-  private hasValidColorCounts(
-    tubes: MinimalTube[],
-    tubeMaxHeight: number
-  ): boolean {
-    const colorCounts: Record<number, number> = {}
+  getRating(): PuzzleRating | null {
+    return this.engine.getRating()
+  }
 
-    tubes.forEach((tube) => {
-      tube.colors.forEach((color) => {
-        colorCounts[color] = (colorCounts[color] || 0) + 1
-      })
-    })
+  /**
+   * Get the solver result for the current tubes from the background solver
+   * Resolves with null if the board changes before the result arrives
+   */
+  private requestSolverCheck(): Promise<SolverResult | null> {
+    const stateHash = this.engine.getStateHash()
 
-    // Each color should appear exactly tubeMaxHeight times for the puzzle to be solvable
-    for (const color in colorCounts) {
-      if (colorCounts[color] !== tubeMaxHeight && colorCounts[color] > 0) {
-        return false
-      }
+    const cached = this.engine.getCachedResult()
+    if (cached) {
+      this.cancelSolverCheck()
+      return Promise.resolve(cached)
+    }
+    if (this.pendingCheck?.stateHash === stateHash) {
+      return this.pendingCheck.result
+    }
+    // The starting board is already being solved to rate the puzzle
+    if (this.pendingRating?.stateHash === stateHash) {
+      this.cancelSolverCheck()
+      return this.pendingRating.result
     }
 
-    return true
-  }
+    // Only the latest board matters, so drop any older request
+    this.cancelSolverCheck()
 
-  /**
-   * Perform a breadth-first search to check if the puzzle is solvable
-   */
-  private performSolvabilityBFS(
-    initialTubes: MinimalTube[],
-    tubeMaxHeight: number
-  ): boolean {
-    // Helper functions
-    const getStateHash = this.createStateHashFunction()
-    const initialHash = getStateHash(initialTubes)
-
-    // Set up the BFS
-    const queue: { tubes: MinimalTube[]; moveCount: number }[] = []
-    const visited = new Set<string>([initialHash])
-
-    queue.push({ tubes: initialTubes, moveCount: 0 })
-
-    while (queue.length > 0) {
-      const { tubes, moveCount } = queue.shift()!
-      const newStates = this.generateNextStates(tubes, tubeMaxHeight)
-
-      for (const { newTubes, hash } of newStates) {
-        // Check if this new state is solved
-        if (this.isAlreadySolved(newTubes)) {
-          return true
-        }
-
-        if (!visited.has(hash)) {
-          visited.add(hash)
-          queue.push({
-            tubes: newTubes,
-            moveCount: moveCount + 1,
-          })
-
-          // Limit the search space to prevent excessive memory usage
-          if (visited.size > MAX_BFS_STATES) {
-            console.warn(
-              `Search space too large (${visited.size} states), stopping BFS`
-            )
-            // Return false instead of assuming it's solvable
-            // This will cause the puzzle generation to try again
-            return false
-          }
-        }
-      }
-    }
+    const { id, result } = this.solverClient.solve(
+      this.engine.getTubeColors(),
+      this.engine.getCapacity()
+    )
+    this.pendingCheck = { id, stateHash, result }
+    this.emitSolverPending()
+
+    result.then((analysis) => {
+      if (!analysis || this.pendingCheck?.id !== id) return
+
+      this.pendingCheck = null
+      this.engine.recordSolverResult(stateHash, analysis)
+      this.emitSolverPending()
+      this.updateGameState()
+    })
 
-    // If we've explored all reachable states and found no solution
-    return false
+    return result
   }
 
   /**
-   * Generate all possible next states from the current state
+   * Rate a loaded puzzle in the background solver, so loading it doesn't
+   * wait for a search of its starting board
    */
-  private generateNextStates(
-    tubes: MinimalTube[],
-    tubeMaxHeight: number
-  ): { newTubes: MinimalTube[]; hash: string }[] {
-    const result: { newTubes: MinimalTube[]; hash: string }[] = []
-    const getStateHash = this.createStateHashFunction()
-    const cloneTubeState = this.createCloneStateFunction()
-
-    for (let fromIndex = 0; fromIndex < tubes.length; fromIndex++) {
-      const fromTube = tubes[fromIndex]
-
-      // Skip if source tube is empty or already completed
-      if (fromTube.isEmpty() || fromTube.isCompleted()) continue
+  private ratePuzzle(): void {
+    this.cancelRating()
+    if (this.engine.isRated()) return
 
-      const topFromColor = fromTube.getTopColor()
-      if (topFromColor === null) continue
+    this.engine
+      .rateAsync((tubeColors, capacity) => {
+        const { id, result } = this.solverClient.solve(tubeColors, capacity)
+        this.pendingRating = { id, stateHash: this.engine.getStateHash(tubeColors), result }
+        this.emitSolverPending()
+        return result
+      })
+      .then((rated) => {
+        if (!rated) return
 
-      const segmentsToPour = fromTube.getConsecutiveTopColors()
+        this.pendingRating = null
+        this.emitSolverPending()
+        this.updateGameState()
+      })
+  }
 
-      for (let toIndex = 0; toIndex < tubes.length; toIndex++) {
-        if (fromIndex === toIndex) continue // Can't pour to the same tube
+  /**
+   * Stop rating a loaded puzzle, if it's being rated
+   */
+  private cancelRating(): void {
+    if (!this.pendingRating) return
 
-        const toTube = tubes[toIndex]
+    this.solverClient.cancel(this.pendingRating.id)
+    this.pendingRating = null
+    this.emitSolverPending()
+  }
 
-        // Skip if destination tube is full or already completed
-        if (toTube.colors.length === toTube.maxHeight || toTube.isCompleted())
-          continue
+  /**
+   * Generate a puzzle, rating its candidate boards in the background solver
+   * Resolves with null if another puzzle replaces it before it's ready
+   */
+  private async generatePuzzle(
+    start: (analyze: BoardAnalyzer) => Promise<boolean>
+  ): Promise<boolean | null> {
+    // Checks of the old board no longer matter
+    this.cancelGeneration()
+    this.cancelRating()
+    this.cancelSolverCheck()
 
-        // Check if we can pour into destination tube
-        const toTopColor = toTube.getTopColor()
-        const spaceAvailable = toTube.maxHeight - toTube.colors.length
+    const generation = { requestId: null as number | null, cancelled: false }
+    this.generation = generation
+    this.emitSolverPending()
 
-        // Optimization: don't pour if it would just fill an empty tube with a partial color sequence
-        if (
-          toTube.isEmpty() &&
-          segmentsToPour < tubeMaxHeight &&
-          fromTube.colors.length > segmentsToPour
-        ) {
-          continue
-        }
+    const analyze: BoardAnalyzer = (tubeColors, capacity) => {
+      if (generation.cancelled) return Promise.resolve(null)
 
-        // Can only pour if destination has enough space and color matches or is empty
-        const canPour =
-          spaceAvailable > 0 &&
-          (toTopColor === null || toTopColor === topFromColor)
+      const { id, result } = this.solverClient.solve(tubeColors, capacity)
+      generation.requestId = id
+      return result
+    }
 
-        if (canPour) {
-          // Calculate how many segments we can actually pour
-          const segmentsToActuallyPour = Math.min(
-            segmentsToPour,
-            spaceAvailable
-          )
+    const result = await start(analyze)
+    if (generation.cancelled) return null
 
-          // Create a new state by cloning current tubes
-          const newTubes = cloneTubeState(tubes)
+    this.generation = null
+    this.emitSolverPending()
+    return result
+  }
 
-          // Perform the pour operation
-          newTubes[fromIndex].removeTopColors(segmentsToActuallyPour)
-          newTubes[toIndex].addColors(topFromColor, segmentsToActuallyPour)
+  /**
+   * Stop generating a puzzle, if one is being generated
+   */
+  private cancelGeneration(): void {
+    if (!this.generation) return
 
-          // Add to results
-          result.push({
-            newTubes,
-            hash: getStateHash(newTubes),
-          })
-        }
-      }
+    this.generation.cancelled = true
+    if (this.generation.requestId !== null) {
+      this.solverClient.cancel(this.generation.requestId)
     }
-
-    return result
+    this.generation = null
+    this.emitSolverPending()
   }
 
   /**
-   * Creates a function for generating state hashes
+   * Check if a new puzzle is still being generated
+   * The tubes show the previous board until it's ready.
    */
-  private createStateHashFunction() {
-    return (tubes: MinimalTube[]): string => {
-      return tubes.map((tube) => tube.colors.join(",")).join("|")
-    }
+  isGenerating(): boolean {
+    return this.generation !== null
   }
 
   /**
-   * Creates a function for cloning tube states
+   * Cancel the running background solver request, if any
    */
-  private createCloneStateFunction() {
-    return (tubes: MinimalTube[]): MinimalTube[] => {
-      return tubes.map((tube) =>
-        this.createMinimalTube(tube.colors, tube.maxHeight)
-      )
-    }
+  private cancelSolverCheck(): void {
+    if (!this.pendingCheck) return
+
+    this.solverClient.cancel(this.pendingCheck.id)
+    this.pendingCheck = null
+    this.emitSolverPending()
   }
 
   /**
-   * Creates a minimal tube for solvability calculations
-   */
-  private createMinimalTube(colors: number[], maxHeight: number): MinimalTube {
-    return {
-      colors: [...colors],
-      maxHeight,
-      isEmpty(): boolean {
-        return this.colors.length === 0
-      },
-      isCompleted(): boolean {
-        return (
-          this.isEmpty() ||
-          (this.colors.length === this.maxHeight &&
-            this.colors.every((color) => color === this.colors[0]))
-        )
-      },
-      getTopColor(): number | null {
-        return this.colors.length > 0
-          ? this.colors[this.colors.length - 1]
-          : null
-      },
-      getConsecutiveTopColors(): number {
-        if (this.isEmpty()) return 0
-
-        const topColor = this.getTopColor()
-        let count = 0
-
-        for (let i = this.colors.length - 1; i >= 0; i--) {
-          if (this.colors[i] === topColor) {
-            count++
-          } else {
-            break
-          }
-        }
-
-        return count
-      },
-      removeTopColors(count: number): void {
-        this.colors.splice(this.colors.length - count, count)
-      },
-      addColors(color: number, count: number): void {
-        for (let i = 0; i < count; i++) {
-          this.colors.push(color)
-        }
-      },
-    }
+   * Tell the scene whether the background solver is working on anything
+   */
+  private emitSolverPending(): void {
+    this.events.emit(
+      "solverPending",
+      this.generation !== null || this.pendingRating !== null || this.pendingCheck !== null
+    )
   }
 
   /**
@@ -879,142 +575,172 @@ export class GameLogic {
     return this.events.off(event, fn, context)
   }
 
+  /**
+   * Stop the background solver and remove all event listeners
+   */
+  destroy(): void {
+    this.cancelGeneration()
+    this.solverClient.destroy()
+    this.pendingRating = null
+    this.pendingCheck = null
+    this.events.removeAllListeners()
+  }
+
   /**
    * Undo the last move
    */
   undo(): boolean {
-    if (this.moveHistory.length === 0) {
-      return false
-    }
-
-    // Get the last move
-    const lastMove = this.moveHistory.pop()
+    const lastMove = this.engine.undo()
     if (!lastMove) return false
 
-    // Get the tubes involved in the last move
-    const fromTube = this.tubes[lastMove.toIndex]
-    const toTube = this.tubes[lastMove.fromIndex]
+    this.clearHint()
+    this.syncTubes([lastMove.fromIndex, lastMove.toIndex])
 
-    // Remove colors from the destination tube of the original move
-    fromTube.removeTopColors(lastMove.count)
+    // Emit history change event
+    this.emitHistoryChange()
 
-    // Add colors back to the source tube of the original move
-    toTube.addColors(lastMove.color, lastMove.count)
+    // Update game state
+    this.updateGameState()
+
+    return true
+  }
 
-    // Redraw tubes
-    fromTube.draw()
-    toTube.draw()
+  /**
+   * Redo the last undone move
+   */
+  redo(): boolean {
+    const move = this.engine.redo()
+    if (!move) return false
 
-    // Update move count in score metrics
-    this.scoreMetrics.moveCount = this.moveHistory.length;
+    this.clearSelection()
+    this.clearHint()
 
-    // Emit history change event
-    this.events.emit("historyChange", this.moveHistory.length)
+    // Replay the pour animation before showing the new colors
+    this.tubes[move.fromIndex].pourTo(this.tubes[move.toIndex])
+    this.syncTubes([move.fromIndex, move.toIndex])
+    this.emitHistoryChange()
 
     // Update game state
     this.updateGameState()
 
     return true
   }
-  
-  // Get the number of moves made
-  getMoveCount(): number {
-    return this.moveHistory.length;
-  }
-
-  /**
-   * Estimate the optimal number of moves to solve the puzzle
-   * This is a heuristic based on the number of color segments that need to be moved
-   */
-  private estimateOptimalMoveCount(): void {
-    // Count the number of color segments that need to be moved
-    let segmentsToMove = 0;
-    const colorCounts: Record<number, number> = {};
-    
-    // Count colors in each tube
-    for (const tube of this.tubes) {
-      let lastColor: number | null = null;
-      
-      for (let i = tube.colors.length - 1; i >= 0; i--) {
-        const color = tube.colors[i];
-        
-        // Initialize color count if not exists
-        if (colorCounts[color] === undefined) {
-          colorCounts[color] = 0;
-        }
-        colorCounts[color]++;
-        
-        // If color changes, we have a new segment
-        if (lastColor !== null && lastColor !== color) {
-          segmentsToMove++;
-        }
-        
-        lastColor = color;
-      }
+
+  /**
+   * Check if there is a move to undo
+   */
+  canUndo(): boolean {
+    return this.engine.canUndo()
+  }
+
+  /**
+   * Check if there is an undone move to redo
+   */
+  canRedo(): boolean {
+    return this.engine.canRedo()
+  }
+
+  /**
+   * Notify listeners of the move count and undo/redo availability
+   */
+  private emitHistoryChange(): void {
+    const state: HistoryState = {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
     }
-    
-    // Minimum moves is at least the number of segments minus the number of colors
-    // (since each color needs to be in one tube)
-    const colorCount = Object.keys(colorCounts).length;
-    
-    // Heuristic: Each color needs to be consolidated, which takes at least
-    // (segments - colors) moves, plus some overhead for moving between tubes
-    this.scoreMetrics.optimalMoveCount = Math.max(segmentsToMove - colorCount, colorCount);
-  }
-
-  /**
-   * Calculate the current score based on various metrics
-   */
-  private calculateScore(): number {
-    // Update current time
-    this.scoreMetrics.currentTime = Date.now();
-    
-    // Count completed tubes
-    this.scoreMetrics.completedTubes = this.tubes.filter(tube => tube.isCompleted()).length;
-    
-    // Base score starts at 1000
-    let score = 1000;
-    
-    // Deduct points for excess moves if we have an optimal estimate
-    if (this.scoreMetrics.optimalMoveCount !== null) {
-      const moveEfficiency = Math.max(0, 1 - (this.scoreMetrics.moveCount - this.scoreMetrics.optimalMoveCount) / 
-                                     (this.scoreMetrics.optimalMoveCount * 2));
-      score *= moveEfficiency;
-    } else {
-      // If we don't have an optimal estimate, use a simpler formula
-      const moveDeduction = Math.min(500, this.scoreMetrics.moveCount * 5);
-      score -= moveDeduction;
+    this.events.emit("historyChange", this.engine.getMoveCount(), state)
+  }
+
+  /**
+   * Highlight the next move on a shortest path to the solution
+   * Each new hint deducts points from the score
+   * Resolves with false if no hint is available
+   */
+  async showHint(): Promise<boolean> {
+    if (this.hintMove) return true
+    if (!this.tubes.length) return false
+
+    const stateHash = this.engine.getStateHash()
+    const analysis = await this.requestSolverCheck()
+
+    // The board changed or another hint was shown while the solver was working
+    if (stateHash !== this.engine.getStateHash()) return false
+    if (this.hintMove) return true
+
+    const solution = analysis?.moves
+    if (!solution || solution.length === 0) return false
+
+    this.clearSelection()
+    this.hintMove = solution[0]
+    this.tubes[this.hintMove.fromIndex].setHinted(true)
+    this.tubes[this.hintMove.toIndex].setHinted(true)
+
+    this.engine.recordHint()
+    this.events.emit("hintShown", this.hintMove)
+    this.updateGameState()
+
+    return true
+  }
+
+  /**
+   * Remove the highlight from the currently hinted tubes
+   */
+  private clearHint(): void {
+    if (this.hintMove) {
+      this.tubes[this.hintMove.fromIndex].setHinted(false)
+      this.tubes[this.hintMove.toIndex].setHinted(false)
+      this.hintMove = null
     }
-    
-    // Add points for completed tubes
-    const completionBonus = (this.scoreMetrics.completedTubes / this.scoreMetrics.totalTubes) * 500;
-    score += completionBonus;
-    
-    // Time factor (gentle penalty for taking longer)
-    const timeElapsedSeconds = (this.scoreMetrics.currentTime - this.scoreMetrics.startTime) / 1000;
-    const timeFactor = Math.max(0.5, 1 - (timeElapsedSeconds / 300)); // 5 minutes to reach 50% penalty
-    score *= timeFactor;
-    
-    // Ensure score is never negative
-    score = Math.max(0, Math.round(score));
-    
-    // Update current score
-    this.currentScore = score;
-    
-    return score;
+  }
+
+  /**
+   * Get the seed used to generate the current puzzle
+   * Returns null for puzzles loaded without a seed
+   */
+  getSeed(): number | null {
+    return this.engine.getSeed()
+  }
+
+  /**
+   * Get the tube colors at the start of the current puzzle
+   */
+  getInitialColors(): number[][] {
+    return this.engine.getInitialColors()
+  }
+
+  /**
+   * Get the moves played so far, oldest first
+   */
+  getMoveHistory(): Move[] {
+    return this.engine.getMoveHistory()
+  }
+
+  /**
+   * Get the number of moves made
+   */
+  getMoveCount(): number {
+    return this.engine.getMoveCount()
   }
 
   /**
    * Get the current score
    */
   getScore(): number {
-    return this.currentScore;
+    return this.engine.getScore()
+  }
+
+  /**
+   * Restore saved play time and hint usage for a reloaded game
+   */
+  restoreScoreMetrics(progress: { elapsedMs: number; hintsUsed: number }): void {
+    this.engine.restoreScoreMetrics(progress)
+    this.updateGameState()
   }
 
   /**
    * Get the scoring metrics
    */
   getScoringMetrics(): ScoreMetrics {
-    return { ...this.scoreMetrics };
+    return this.engine.getScoringMetrics()
   }
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { getKeyAction, KeyPress } from "./KeyboardControls"
+
+const press = (key: string, modifiers: Partial<KeyPress> = {}): KeyPress => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers,
+})
+
+describe("getKeyAction", () => {
+  it("focuses tubes with the number keys, with 0 as the tenth tube", () => {
+    expect(getKeyAction(press("1"))).toEqual({ type: "focus", index: 0 })
+    expect(getKeyAction(press("9"))).toEqual({ type: "focus", index: 8 })
+    expect(getKeyAction(press("0"))).toEqual({ type: "focus", index: 9 })
+  })
+
+  it("moves the focus with the arrow keys", () => {
+    expect(getKeyAction(press("ArrowLeft"))).toEqual({ type: "moveFocus", delta: -1 })
+    expect(getKeyAction(press("ArrowRight"))).toEqual({ type: "moveFocus", delta: 1 })
+  })
+
+  it("selects with Enter and Space", () => {
+    expect(getKeyAction(press("Enter"))).toEqual({ type: "select" })
+    expect(getKeyAction(press(" "))).toEqual({ type: "select" })
+  })
+
+  it("undoes and redoes with or without Ctrl", () => {
+    expect(getKeyAction(press("z"))).toEqual({ type: "undo" })
+    expect(getKeyAction(press("z", { ctrlKey: true }))).toEqual({ type: "undo" })
+    expect(getKeyAction(press("Z", { ctrlKey: true, shiftKey: true }))).toEqual({ type: "redo" })
+    expect(getKeyAction(press("y", { metaKey: true }))).toEqual({ type: "redo" })
+  })
+
+  it("resets with R but leaves browser shortcuts alone", () => {
+    expect(getKeyAction(press("r"))).toEqual({ type: "reset" })
+    expect(getKeyAction(press("r", { ctrlKey: true }))).toBeNull()
+    expect(getKeyAction(press("1", { metaKey: true }))).toBeNull()
+    expect(getKeyAction(press("z", { altKey: true }))).toBeNull()
+    expect(getKeyAction(press("Tab"))).toBeNull()
+  })
+})
@@ -0,0 +1,179 @@
+import type { Tube } from "../objects/Tube"
+
+/**
+ * Something the player can do from the keyboard
+ */
+export type KeyAction =
+  | { type: "focus"; index: number }
+  | { type: "moveFocus"; delta: number }
+  | { type: "select" }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset" }
+
+/**
+ * The parts of a keyboard event used to pick an action
+ */
+export type KeyPress = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey">
+
+/**
+ * What the keyboard controls can do in the scene that owns them
+ */
+export interface KeyboardControlsHandlers {
+  getTubes: () => Tube[]
+  selectTube: (tube: Tube) => void
+  undo: () => void
+  redo: () => void
+  reset: () => void
+  // True while a dialog, replay or game over screen should take the input instead
+  isBlocked: () => boolean
+}
+
+/**
+ * Map a key press to an action, or null if the key isn't a game control
+ *
+ * Number keys focus tubes 1 to 10 (0 is the tenth), arrows move the focus,
+ * Enter and Space select or pour, Z undoes, Shift+Z or Y redoes and R resets.
+ * Other shortcuts such as Ctrl+R are left to the browser.
+ */
+export function getKeyAction(press: KeyPress): KeyAction | null {
+  if (press.altKey) return null
+
+  const key = press.key.toLowerCase()
+  const withModifier = press.ctrlKey || press.metaKey
+
+  // Undo and redo work with or without Ctrl, like most editors
+  if (key === "z") {
+    return { type: press.shiftKey ? "redo" : "undo" }
+  }
+  if (key === "y") {
+    return { type: "redo" }
+  }
+  if (withModifier) return null
+
+  if (/^[0-9]$/.test(key)) {
+    return { type: "focus", index: key === "0" ? 9 : Number(key) - 1 }
+  }
+
+  switch (key) {
+    case "arrowleft":
+    case "arrowup":
+      return { type: "moveFocus", delta: -1 }
+    case "arrowright":
+    case "arrowdown":
+      return { type: "moveFocus", delta: 1 }
+    case "enter":
+    case " ":
+      return { type: "select" }
+    case "r":
+      return { type: "reset" }
+    default:
+      return null
+  }
+}
+
+/**
+ * Lets the player move a focus cursor across the tubes and play with the keyboard
+ *
+ * The focus ring only shows once the keyboard is used, and hides again on a click
+ * so it doesn't linger next to the mouse hover effect.
+ */
+export class KeyboardControls {
+  private focusIndex = 0
+  private focusVisible = false
+
+  constructor(
+    private readonly scene: Phaser.Scene,
+    private readonly handlers: KeyboardControlsHandlers
+  ) {}
+
+  /**
+   * Start listening for keys
+   */
+  public enable(): void {
+    this.scene.input.keyboard?.on("keydown", this.handleKeyDown, this)
+    this.scene.input.on("pointerdown", this.hideFocus, this)
+  }
+
+  /**
+   * Stop listening for keys and hide the focus ring
+   */
+  public disable(): void {
+    this.scene.input.keyboard?.off("keydown", this.handleKeyDown, this)
+    this.scene.input.off("pointerdown", this.hideFocus, this)
+    this.focusVisible = false
+  }
+
+  /**
+   * Redraw the focus ring, e.g. after the tubes have been rebuilt
+   */
+  public refresh(): void {
+    const tubes = this.handlers.getTubes()
+    this.focusIndex = Math.min(this.focusIndex, Math.max(tubes.length - 1, 0))
+
+    tubes.forEach((tube, index) => {
+      tube.setFocused(this.focusVisible && index === this.focusIndex)
+    })
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    // Keys pressed on page controls, like the screen reader buttons, belong to them
+    const target = event.target as HTMLElement | null
+    if (target?.closest?.("button, input, select, textarea, a")) return
+    if (this.handlers.isBlocked()) return
+
+    const action = getKeyAction(event)
+    if (!action) return
+
+    // Holding a key only keeps moving the focus; it shouldn't pour or undo repeatedly
+    if (event.repeat && action.type !== "moveFocus") {
+      event.preventDefault()
+      return
+    }
+
+    // Keep arrows and Space from scrolling the page
+    event.preventDefault()
+
+    const tubes = this.handlers.getTubes()
+    if (tubes.length === 0) return
+
+    switch (action.type) {
+      case "focus":
+        if (action.index >= tubes.length) return
+        this.focusIndex = action.index
+        this.focusVisible = true
+        break
+      case "moveFocus":
+        // The first arrow press only reveals the focus ring where it is
+        if (this.focusVisible) {
+          this.focusIndex = (this.focusIndex + action.delta + tubes.length) % tubes.length
+        }
+        this.focusVisible = true
+        break
+      case "select": {
+        this.focusVisible = true
+        const tube = tubes[Math.min(this.focusIndex, tubes.length - 1)]
+        this.handlers.selectTube(tube)
+        break
+      }
+      case "undo":
+        this.handlers.undo()
+        break
+      case "redo":
+        this.handlers.redo()
+        break
+      case "reset":
+        this.handlers.reset()
+        break
+    }
+
+    this.refresh()
+  }
+
+  private hideFocus(): void {
+    if (!this.focusVisible) return
+
+    this.focusVisible = false
+    this.refresh()
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { findLevel, getNextLevel, LEVEL_PACKS, validateLevelPack } from "./LevelPacks"
+import { PuzzleEngine } from "./PuzzleEngine"
+
+describe("LEVEL_PACKS", () => {
+  const levels = LEVEL_PACKS.flatMap((pack) =>
+    pack.levels.map((level) => ({ pack, level }))
+  )
+
+  it("has unique pack ids", () => {
+    const ids = LEVEL_PACKS.map((pack) => pack.id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it.each(levels)("$pack.id/$level.id is solvable within par", ({ level }) => {
+    const engine = new PuzzleEngine(() => 0)
+
+    expect(engine.loadState(level.board)).toBe(true)
+    expect(engine.isSolved()).toBe(false)
+
+    const solution = engine.findOptimalSolution()
+    expect(solution).not.toBeNull()
+    expect(solution!.length).toBeLessThanOrEqual(level.par)
+  })
+})
+
+describe("getNextLevel", () => {
+  it("walks through every level of every pack in order", () => {
+    const [firstPack] = LEVEL_PACKS
+    let ref = getNextLevel({ packId: firstPack.id, levelId: firstPack.levels[0].id })
+    let visited = 1
+
+    while (ref) {
+      expect(findLevel(ref)).not.toBeNull()
+      ref = getNextLevel(ref)
+      visited++
+    }
+
+    expect(visited).toBe(
+      LEVEL_PACKS.reduce((count, pack) => count + pack.levels.length, 0)
+    )
+  })
+
+  it("returns null for levels that don't exist", () => {
+    expect(getNextLevel({ packId: "missing", levelId: "missing" })).toBeNull()
+    expect(findLevel(null)).toBeNull()
+  })
+})
+
+describe("validateLevelPack", () => {
+  const level = { id: "one", title: "One", board: "v1;2;ab/ba/-", par: 3 }
+
+  it("accepts a well-formed pack", () => {
+    const pack = { id: "pack", title: "Pack", levels: [level] }
+    expect(validateLevelPack(pack)).toEqual(pack)
+  })
+
+  it("rejects packs without levels", () => {
+    expect(() => validateLevelPack({ id: "pack", title: "Pack", levels: [] })).toThrow()
+    expect(() => validateLevelPack(null)).toThrow()
+  })
+
+  it("rejects invalid boards and duplicate level ids", () => {
+    expect(() =>
+      validateLevelPack({
+        id: "pack",
+        title: "Pack",
+        levels: [{ ...level, board: "v1;2;abc/-" }],
+      })
+    ).toThrow(/invalid board/)
+    expect(() =>
+      validateLevelPack({ id: "pack", title: "Pack", levels: [level, level] })
+    ).toThrow(/more than one level/)
+  })
+
+  it("rejects boards with colors that look alike", () => {
+    // Medium turquoise and dark turquoise
+    expect(() =>
+      validateLevelPack({
+        id: "pack",
+        title: "Pack",
+        levels: [{ ...level, board: "v1;2;rv/vr/-" }],
+      })
+    ).toThrow(/look alike in the standard palette/)
+  })
+})
@@ -0,0 +1,103 @@
+import { LevelDefinition, LevelPack, LevelRef } from "@/lib/types"
+import { COLOR_VISION_MODES, findIndistinguishableColors } from "./ColorVision"
+import { parsePuzzle } from "./PuzzleFormat"
+import firstDrops from "@/levels/first-drops.json"
+import deepWater from "@/levels/deep-water.json"
+
+/**
+ * Level packs in the order they are shown on the level select screen
+ *
+ * Packs are JSON files in src/levels. Boards use the text puzzle format, so
+ * `npm run puzzle -- generate` and `rate` can be used to author them.
+ */
+export const LEVEL_PACKS: LevelPack[] = [firstDrops, deepWater].map(
+  validateLevelPack
+)
+
+/**
+ * A level together with the pack it belongs to and its position in the pack
+ */
+export interface LevelEntry {
+  pack: LevelPack
+  level: LevelDefinition
+  index: number
+}
+
+/**
+ * Look up a level, or null if no pack contains it
+ */
+export function findLevel(ref: LevelRef | null): LevelEntry | null {
+  const pack = LEVEL_PACKS.find((pack) => pack.id === ref?.packId)
+  const index = pack?.levels.findIndex((level) => level.id === ref?.levelId) ?? -1
+
+  return pack && index !== -1 ? { pack, level: pack.levels[index], index } : null
+}
+
+/**
+ * The level that follows the given one, continuing into the next pack
+ * Returns null after the last level of the last pack
+ */
+export function getNextLevel(ref: LevelRef): LevelRef | null {
+  const entry = findLevel(ref)
+  if (!entry) return null
+
+  const nextLevel = entry.pack.levels[entry.index + 1]
+  if (nextLevel) {
+    return { packId: entry.pack.id, levelId: nextLevel.id }
+  }
+
+  const nextPack = LEVEL_PACKS[LEVEL_PACKS.indexOf(entry.pack) + 1]
+  return nextPack ? { packId: nextPack.id, levelId: nextPack.levels[0].id } : null
+}
+
+/**
+ * Check that a level pack file has the expected shape and valid boards
+ * Throws an error naming the problem, so a broken pack fails loudly
+ */
+export function validateLevelPack(value: unknown): LevelPack {
+  const pack = value as Partial<LevelPack> | null
+
+  if (
+    typeof pack?.id !== "string" ||
+    typeof pack.title !== "string" ||
+    !Array.isArray(pack.levels) ||
+    pack.levels.length === 0
+  ) {
+    throw new Error("Level pack needs an id, a title and at least one level")
+  }
+
+  const levelIds = new Set<string>()
+  for (const level of pack.levels as Partial<LevelDefinition>[]) {
+    if (
+      typeof level?.id !== "string" ||
+      typeof level.title !== "string" ||
+      typeof level.board !== "string" ||
+      typeof level.par !== "number"
+    ) {
+      throw new Error(`Level in pack "${pack.id}" needs an id, a title, a board and a par`)
+    }
+    if (levelIds.has(level.id)) {
+      throw new Error(`Pack "${pack.id}" has more than one level "${level.id}"`)
+    }
+    levelIds.add(level.id)
+
+    let tubes: number[][]
+    try {
+      tubes = parsePuzzle(level.board).tubes
+    } catch (error) {
+      throw new Error(`Level "${pack.id}/${level.id}" has an invalid board: ${error}`)
+    }
+
+    // Every player should be able to tell the liquids apart, whichever palette they use
+    for (const mode of COLOR_VISION_MODES) {
+      const [pair] = findIndistinguishableColors(tubes.flat(), mode)
+      if (pair) {
+        throw new Error(
+          `Level "${pack.id}/${level.id}" uses colors ${pair[0]} and ${pair[1]}, which look alike in the ${mode} palette`
+        )
+      }
+    }
+  }
+
+  return pack as LevelPack
+}
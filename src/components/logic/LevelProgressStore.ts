@@ -0,0 +1,96 @@
+import { LevelPack, LevelRef, LevelResult } from "@/lib/types"
+
+const STORAGE_KEY = "water-pour-fun:levels"
+
+/**
+ * Best results of completed levels, keyed by "packId/levelId"
+ */
+type LevelResults = Record<string, LevelResult>
+
+/**
+ * Tracks which levels the player has completed and their best results
+ * in local storage
+ *
+ * The first level of each pack is always playable; every other level
+ * unlocks once the level before it has been completed.
+ */
+export class LevelProgressStore {
+  /**
+   * Get the best result for a level, or null if it hasn't been completed
+   */
+  getResult(ref: LevelRef): LevelResult | null {
+    return this.loadResults()[this.getKey(ref)] ?? null
+  }
+
+  /**
+   * Check if a level has been completed
+   */
+  isCompleted(ref: LevelRef): boolean {
+    return this.getResult(ref) !== null
+  }
+
+  /**
+   * Check if the level at the given position in a pack can be played
+   */
+  isUnlocked(pack: LevelPack, index: number): boolean {
+    if (index === 0) return true
+
+    const previous = pack.levels[index - 1]
+    return previous !== undefined && this.isCompleted({ packId: pack.id, levelId: previous.id })
+  }
+
+  /**
+   * Record a completed level, keeping the best score and fewest moves,
+   * and return the updated best result
+   */
+  recordCompletion(ref: LevelRef, score: number, moves: number): LevelResult {
+    const results = this.loadResults()
+    const key = this.getKey(ref)
+    const previous = results[key]
+
+    const result: LevelResult = previous
+      ? {
+          bestScore: Math.max(previous.bestScore, score),
+          bestMoves: Math.min(previous.bestMoves, moves),
+        }
+      : { bestScore: score, bestMoves: moves }
+
+    results[key] = result
+    this.saveResults(results)
+    return result
+  }
+
+  private getKey(ref: LevelRef): string {
+    return `${ref.packId}/${ref.levelId}`
+  }
+
+  private loadResults(): LevelResults {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY)
+      if (!stored) return {}
+
+      const parsed = JSON.parse(stored)
+      if (typeof parsed !== "object" || parsed === null) return {}
+
+      // Drop any entries that don't look like results
+      return Object.fromEntries(
+        Object.entries(parsed).filter(
+          ([, result]) =>
+            typeof (result as LevelResult)?.bestScore === "number" &&
+            typeof (result as LevelResult)?.bestMoves === "number"
+        )
+      ) as LevelResults
+    } catch (error) {
+      console.warn("Could not read level progress", error)
+      return {}
+    }
+  }
+
+  private saveResults(results: LevelResults): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(results))
+    } catch (error) {
+      console.warn("Could not save level progress", error)
+    }
+  }
+}
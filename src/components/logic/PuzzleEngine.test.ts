@@ -0,0 +1,330 @@
+import fc from "fast-check"
+import { describe, expect, it, vi } from "vitest"
+import { serializePuzzle } from "./PuzzleFormat"
+import { PuzzleEngine } from "./PuzzleEngine"
+import { PuzzleSolver } from "./Solver"
+
+/**
+ * Engine playing the given board, with no moves made yet
+ */
+function loadBoard(tubes: number[][], capacity: number): PuzzleEngine {
+  const engine = new PuzzleEngine(() => 0)
+  const loaded = engine.loadState(
+    serializePuzzle({ capacity, tubes, seed: null, moves: [] })
+  )
+
+  expect(loaded).toBe(true)
+  return engine
+}
+
+/**
+ * Count how often each color appears across all tubes
+ */
+function countColors(tubes: number[][]): Map<number, number> {
+  const counts = new Map<number, number>()
+  tubes.flat().forEach((color) => counts.set(color, (counts.get(color) ?? 0) + 1))
+  return counts
+}
+
+// Board shapes small enough for the solver to check quickly
+const boardShape = fc.record({
+  colorCount: fc.integer({ min: 2, max: 5 }),
+  capacity: fc.integer({ min: 2, max: 5 }),
+  emptyTubes: fc.integer({ min: 1, max: 2 }),
+  seed: fc.integer({ min: 1, max: 2 ** 31 - 1 }),
+})
+
+describe("PuzzleEngine pour rules", () => {
+  it("pours the whole top run onto an empty tube", () => {
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+
+    expect(engine.getPour(0, 2)).toEqual({
+      fromIndex: 0,
+      toIndex: 2,
+      color: 1,
+      count: 2,
+    })
+  })
+
+  it("pours only as much as fits in the destination", () => {
+    const engine = loadBoard([[0, 0, 1, 1], [0, 0, 1], [1], []], 4)
+
+    expect(engine.getPour(0, 1)).toEqual({
+      fromIndex: 0,
+      toIndex: 1,
+      color: 1,
+      count: 1,
+    })
+  })
+
+  it("refuses pours onto a different color", () => {
+    const engine = loadBoard([[0, 1], [1, 0], []], 2)
+
+    expect(engine.getPour(0, 1)).toBeNull()
+  })
+
+  it("refuses pours from an empty tube, into a full tube or onto itself", () => {
+    const engine = loadBoard([[0, 0], [1], [1]], 2)
+
+    expect(engine.getPour(1, 2)).not.toBeNull()
+    expect(engine.getPour(2, 0)).toBeNull()
+    expect(engine.getPour(1, 1)).toBeNull()
+
+    engine.pour(1, 2)
+    expect(engine.getPour(1, 0)).toBeNull()
+  })
+
+  it("moves the colors and records the move when pouring", () => {
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+
+    expect(engine.pour(0, 2)).not.toBeNull()
+    expect(engine.getTubeColors()).toEqual([[0], [0, 0, 1], [1, 1]])
+    expect(engine.getMoveCount()).toBe(1)
+    expect(engine.getScoringMetrics().moveCount).toBe(1)
+  })
+
+  it("leaves the board untouched when a pour is refused", () => {
+    const engine = loadBoard([[0, 1], [1, 0], []], 2)
+
+    expect(engine.pour(0, 1)).toBeNull()
+    expect(engine.getTubeColors()).toEqual([[0, 1], [1, 0], []])
+    expect(engine.canUndo()).toBe(false)
+  })
+})
+
+describe("PuzzleEngine history", () => {
+  it("undoes and redoes the last move", () => {
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+    const move = engine.pour(0, 2)
+
+    expect(engine.undo()).toEqual(move)
+    expect(engine.getTubeColors()).toEqual([[0, 1, 1], [0, 0, 1], []])
+    expect(engine.canUndo()).toBe(false)
+    expect(engine.canRedo()).toBe(true)
+
+    expect(engine.redo()).toEqual(move)
+    expect(engine.getTubeColors()).toEqual([[0], [0, 0, 1], [1, 1]])
+    expect(engine.canRedo()).toBe(false)
+  })
+
+  it("returns null when there is nothing to undo or redo", () => {
+    const engine = loadBoard([[0, 1], [1, 0], []], 2)
+
+    expect(engine.undo()).toBeNull()
+    expect(engine.redo()).toBeNull()
+  })
+
+  it("drops undone moves when a new move is made", () => {
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+
+    engine.pour(0, 2)
+    engine.undo()
+    engine.pour(1, 2)
+
+    expect(engine.canRedo()).toBe(false)
+  })
+
+  it("restores the exact previous board when a pour is undone", () => {
+    fc.assert(
+      fc.property(
+        boardShape,
+        fc.array(fc.tuple(fc.nat(), fc.nat()), { maxLength: 20 }),
+        ({ colorCount, capacity, emptyTubes, seed }, pours) => {
+          const engine = new PuzzleEngine(() => 0)
+          const tubeCount = colorCount + emptyTubes
+          engine.setup(tubeCount, capacity, { seed, emptyTubes })
+
+          for (const [from, to] of pours) {
+            const before = engine.getTubeColors()
+            const moveCount = engine.getMoveCount()
+            if (!engine.pour(from % tubeCount, to % tubeCount)) continue
+
+            engine.undo()
+            expect(engine.getTubeColors()).toEqual(before)
+            expect(engine.getMoveCount()).toBe(moveCount)
+
+            // Keep the pour so later ones start from a different board
+            engine.redo()
+          }
+        }
+      ),
+      { numRuns: 30 }
+    )
+  })
+
+  it("replays an exported game onto the same board", () => {
+    const engine = new PuzzleEngine(() => 0)
+    engine.setup(5, 4, { seed: 7, emptyTubes: 2 })
+    engine.findOptimalSolution()!.slice(0, 3).forEach((move) => {
+      engine.pour(move.fromIndex, move.toIndex)
+    })
+
+    const reloaded = new PuzzleEngine(() => 0)
+    expect(reloaded.loadState(engine.exportState())).toBe(true)
+    expect(reloaded.getTubeColors()).toEqual(engine.getTubeColors())
+    expect(reloaded.getMoveHistory()).toEqual(engine.getMoveHistory())
+  })
+})
+
+describe("PuzzleEngine generator", () => {
+  it("fills every color exactly once per tube segment", () => {
+    fc.assert(
+      fc.property(boardShape, ({ colorCount, capacity, emptyTubes, seed }) => {
+        const engine = new PuzzleEngine(() => 0)
+        expect(
+          engine.setup(colorCount + emptyTubes, capacity, { seed, emptyTubes })
+        ).toBe(true)
+
+        const counts = countColors(engine.getTubeColors())
+        expect(counts.size).toBe(colorCount)
+        counts.forEach((count) => expect(count).toBe(capacity))
+        engine
+          .getTubeColors()
+          .forEach((colors) => expect(colors.length).toBeLessThanOrEqual(capacity))
+      }),
+      { numRuns: 30 }
+    )
+  })
+
+  it("starts with the requested number of empty tubes", () => {
+    fc.assert(
+      fc.property(boardShape, ({ colorCount, capacity, emptyTubes, seed }) => {
+        const engine = new PuzzleEngine(() => 0)
+        engine.setup(colorCount + emptyTubes, capacity, { seed, emptyTubes })
+
+        const tubes = engine.getTubeColors()
+        expect(tubes.filter((colors) => colors.length === 0)).toHaveLength(emptyTubes)
+      }),
+      { numRuns: 30 }
+    )
+  })
+
+  it("only generates solvable boards", () => {
+    fc.assert(
+      fc.property(boardShape, ({ colorCount, capacity, emptyTubes, seed }) => {
+        const engine = new PuzzleEngine(() => 0)
+        engine.setup(colorCount + emptyTubes, capacity, { seed, emptyTubes })
+
+        expect(engine.analyze().solvability).toBe("solvable")
+        engine.findOptimalSolution()!.forEach((move) => {
+          expect(engine.pour(move.fromIndex, move.toIndex)).toEqual(move)
+        })
+        expect(engine.isSolved()).toBe(true)
+      }),
+      { numRuns: 30 }
+    )
+  })
+
+  it("generates the same board from the same seed", () => {
+    const first = new PuzzleEngine(() => 0)
+    const second = new PuzzleEngine(() => 0)
+
+    first.setup(6, 4, { seed: 1234, emptyTubes: 2 })
+    second.setup(6, 4, { seed: 1234, emptyTubes: 2 })
+
+    expect(second.getTubeColors()).toEqual(first.getTubeColors())
+    expect(second.getSeed()).toBe(1234)
+  })
+
+  it("refuses boards with no room for a color", () => {
+    const engine = new PuzzleEngine(() => 0)
+
+    expect(engine.setup(2, 4, { emptyTubes: 2 })).toBe(false)
+  })
+
+  it("generates the same board with an asynchronous solver", async () => {
+    const solver = new PuzzleSolver()
+    const analyze = (colors: number[][], capacity: number) =>
+      Promise.resolve(solver.analyze(colors, capacity))
+    const sync = new PuzzleEngine(() => 0)
+    const async = new PuzzleEngine(() => 0)
+
+    sync.setup(6, 4, { seed: 1234, emptyTubes: 2 })
+    const generated = await async.setupAsync(6, 4, { seed: 1234, emptyTubes: 2 }, analyze)
+
+    expect(generated).toBe(true)
+    expect(async.getTubeColors()).toEqual(sync.getTubeColors())
+    expect(async.getRating()).toEqual(sync.getRating())
+  })
+
+  it("keeps the current puzzle when the asynchronous solver gives up", async () => {
+    const engine = loadBoard([[0, 1], [1, 0], []], 2)
+
+    const generated = await engine.resetAsync({ seed: 1234 }, () => Promise.resolve(null))
+
+    expect(generated).toBe(false)
+    expect(engine.getTubeColors()).toEqual([[0, 1], [1, 0], []])
+  })
+})
+
+describe("PuzzleEngine rating", () => {
+  it("loads a board without solving it until it's rated", async () => {
+    const solver = new PuzzleSolver()
+    const analyze = vi.fn((colors: number[][], capacity: number) =>
+      Promise.resolve(solver.analyze(colors, capacity))
+    )
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+
+    expect(engine.isRated()).toBe(false)
+    expect(engine.getRating()).toBeNull()
+    expect(engine.getScoringMetrics().optimalMoveCount).toBeNull()
+
+    expect(await engine.rateAsync(analyze)).toBe(true)
+    expect(analyze).toHaveBeenCalledTimes(1)
+    expect(engine.getRating()).toEqual(
+      loadBoard([[0, 1, 1], [0, 0, 1], []], 3).rate()
+    )
+    expect(engine.getScoringMetrics().optimalMoveCount).toBe(
+      engine.getRating()!.optimalMoves
+    )
+  })
+
+  it("rules out boards with the wrong color counts without solving them", async () => {
+    const analyze = vi.fn(() => Promise.resolve(null))
+    const engine = loadBoard([[0, 0, 1], [1, 1, 0], [1], []], 3)
+
+    expect(engine.isRated()).toBe(true)
+    expect(engine.getRating()).toBeNull()
+    expect(engine.checkGameState().solvability).toBe("unsolvable")
+    expect(await engine.rateAsync(analyze)).toBe(true)
+    expect(analyze).not.toHaveBeenCalled()
+  })
+
+  it("ignores a rating that arrives after another puzzle was loaded", async () => {
+    const solver = new PuzzleSolver()
+    const engine = loadBoard([[0, 1, 1], [0, 0, 1], []], 3)
+
+    const rated = engine.rateAsync((colors, capacity) =>
+      Promise.resolve(solver.analyze(colors, capacity))
+    )
+    engine.loadState(
+      serializePuzzle({ capacity: 2, tubes: [[0, 1], [1, 0], []], seed: null, moves: [] })
+    )
+
+    expect(await rated).toBe(false)
+    expect(engine.isRated()).toBe(false)
+  })
+})
+
+describe("PuzzleEngine scoring", () => {
+  it("charges for hints and time taken", () => {
+    let now = 0
+    const engine = new PuzzleEngine(() => now)
+    engine.setup(4, 3, { seed: 99 })
+    const startScore = engine.calculateScore()
+
+    engine.recordHint()
+    expect(engine.calculateScore()).toBe(startScore - 100)
+
+    now = 150_000
+    expect(engine.calculateScore()).toBeLessThan(startScore - 100)
+  })
+
+  it("scores a board that starts solved", () => {
+    const engine = loadBoard([[0, 0], [1, 1], []], 2)
+    engine.rate()
+
+    expect(engine.getScoringMetrics().optimalMoveCount).toBe(0)
+    expect(engine.calculateScore()).toBe(1500)
+  })
+})
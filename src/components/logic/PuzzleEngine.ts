@@ -0,0 +1,1172 @@
+import { COLOR_PALETTE } from "@/lib/constants"
+import {
+  MinimalTube,
+  Move,
+  PuzzleDefinition,
+  PuzzleRating,
+  RatingBand,
+  Solvability,
+  SolverResult,
+} from "@/lib/types"
+import { SeededRandom } from "@/utils/random"
+import { ratePuzzle } from "./DifficultyRating"
+import { parsePuzzle, serializePuzzle } from "./PuzzleFormat"
+import { createMinimalTube, PuzzleSolver } from "./Solver"
+
+export interface GameState {
+  solved: boolean
+  // "unknown" until the solver has checked the current board
+  solvability: Solvability
+  score: number
+}
+
+export interface ScoreMetrics {
+  moveCount: number
+  optimalMoveCount: number | null
+  completedTubes: number
+  totalTubes: number
+  startTime: number
+  currentTime: number
+  hintsUsed: number
+}
+
+export interface SetupOptions {
+  // Seed for puzzle generation; a random seed is chosen when omitted
+  seed?: number
+  // Number of tubes that start empty; the rest each hold one color
+  emptyTubes?: number
+  // Difficulty ratings the generator aims for; any solvable board when omitted
+  ratingBand?: RatingBand
+}
+
+interface PourAttempt {
+  canPour: boolean
+  segmentsToPour: number
+}
+
+/**
+ * Solves a board for puzzle generation, e.g. in a background solver
+ * Resolves with null to stop generating, e.g. when it's no longer needed
+ */
+export type BoardAnalyzer = (
+  tubeColors: number[][],
+  capacity: number
+) => Promise<SolverResult | null>
+
+// Board shape, rating band and seed of a puzzle to generate
+interface PuzzlePlan {
+  tubeCount: number
+  capacity: number
+  emptyTubeCount: number
+  ratingBand: RatingBand | null
+  seed: number
+}
+
+// A generated starting board with its solver result
+interface GeneratedBoard {
+  colors: number[][]
+  result: SolverResult
+}
+
+const HINT_PENALTY = 100 // Points deducted for each hint used
+const MAX_GENERATION_ATTEMPTS = 10 // Boards to try before settling for the closest rating
+
+// Solver result for boards whose color counts already rule out a solution
+const UNSOLVABLE_BY_COLOR_COUNT: SolverResult = {
+  solvability: "unsolvable",
+  moves: null,
+  stats: { expandedStates: 0, branches: 0, deadEnds: 0 },
+}
+
+/**
+ * Check if every color on a board fills exactly one tube of the given capacity
+ */
+export function hasValidColorCounts(
+  tubeColors: number[][],
+  capacity: number
+): boolean {
+  const colorCounts: Record<number, number> = {}
+
+  tubeColors.forEach((colors) => {
+    colors.forEach((color) => {
+      colorCounts[color] = (colorCounts[color] || 0) + 1
+    })
+  })
+
+  // Each color should appear exactly once per segment of capacity for the puzzle to be solvable
+  for (const color in colorCounts) {
+    if (colorCounts[color] !== capacity && colorCounts[color] > 0) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Headless water sort puzzle: the board, pour rules, undo/redo history,
+ * puzzle generation, scoring and solvability
+ *
+ * Has no rendering or browser dependencies, so the rules can run in Node
+ * for tests and tools. GameLogic adapts it to the Phaser scene.
+ */
+export class PuzzleEngine {
+  private tubes: MinimalTube[] = []
+  private capacity = 0
+  // Moves played so far, oldest first
+  private moveHistory: Move[] = []
+  // Moves taken back by undo that can be replayed with redo
+  private redoStack: Move[] = []
+  private scoreMetrics: ScoreMetrics
+  private currentScore = 0
+  private solver = new PuzzleSolver()
+  // Last solver result, reused while the board is unchanged
+  private cachedSolution: ({ stateHash: string } & SolverResult) | null = null
+  // Solver answers for boards seen during the current puzzle
+  private knownSolvability = new Map<string, Solvability>()
+  // Seed of the current puzzle, or null if it was loaded without one
+  private puzzleSeed: number | null = null
+  // Tube colors at the start of the current puzzle
+  private initialColors: number[][] = []
+  // Number of tubes left empty when generating a puzzle
+  private emptyTubeCount = 1
+  // Rating band for generated puzzles and the rating of the current puzzle
+  private ratingBand: RatingBand | null = null
+  private puzzleRating: PuzzleRating | null = null
+  // Solver result for the starting board, null until it has been solved
+  private initialResult: SolverResult | null = null
+
+  /**
+   * @param now Clock used for timing the score, replaceable in tests
+   */
+  constructor(private readonly now: () => number = Date.now) {
+    this.scoreMetrics = this.createScoreMetrics()
+  }
+
+  /**
+   * Generate a new puzzle on a board of the given size
+   * Returns false if the board can't hold a puzzle
+   */
+  setup(tubeCount: number, capacity: number, options: SetupOptions = {}): boolean {
+    const plan = this.planSetup(tubeCount, capacity, options)
+    if (!this.validatePlan(plan)) {
+      this.clearBoard(plan)
+      return false
+    }
+
+    this.startGeneratedPuzzle(plan, this.generateNow(plan))
+    return true
+  }
+
+  /**
+   * Generate a new puzzle on the current board, keeping the board shape and
+   * rating band unless overridden
+   */
+  reset(options: SetupOptions = {}): boolean {
+    const plan = this.planReset(options)
+    if (!this.validatePlan(plan)) return false
+
+    this.startGeneratedPuzzle(plan, this.generateNow(plan))
+    return true
+  }
+
+  /**
+   * Generate a new puzzle like setup, rating the candidate boards with the
+   * given analyzer, e.g. a background solver
+   * The current puzzle stays in play until the new one is ready. Resolves
+   * with false if the board can't hold a puzzle or the analyzer gives up.
+   */
+  async setupAsync(
+    tubeCount: number,
+    capacity: number,
+    options: SetupOptions,
+    analyze: BoardAnalyzer
+  ): Promise<boolean> {
+    const plan = this.planSetup(tubeCount, capacity, options)
+    if (!this.validatePlan(plan)) {
+      this.clearBoard(plan)
+      return false
+    }
+
+    const board = await this.generateWith(plan, analyze)
+    if (!board) return false
+
+    this.startGeneratedPuzzle(plan, board)
+    return true
+  }
+
+  /**
+   * Generate a new puzzle like reset, rating the candidate boards with the
+   * given analyzer; see setupAsync
+   */
+  async resetAsync(options: SetupOptions, analyze: BoardAnalyzer): Promise<boolean> {
+    const plan = this.planReset(options)
+    if (!this.validatePlan(plan)) return false
+
+    const board = await this.generateWith(plan, analyze)
+    if (!board) return false
+
+    this.startGeneratedPuzzle(plan, board)
+    return true
+  }
+
+  private planSetup(tubeCount: number, capacity: number, options: SetupOptions): PuzzlePlan {
+    return {
+      tubeCount,
+      capacity,
+      emptyTubeCount: options.emptyTubes ?? 1,
+      ratingBand: options.ratingBand ?? null,
+      seed: options.seed ?? SeededRandom.createSeed(),
+    }
+  }
+
+  private planReset(options: SetupOptions): PuzzlePlan {
+    return {
+      tubeCount: this.tubes.length,
+      capacity: this.capacity,
+      emptyTubeCount: options.emptyTubes ?? this.emptyTubeCount,
+      ratingBand: options.ratingBand ?? this.ratingBand,
+      seed: options.seed ?? SeededRandom.createSeed(),
+    }
+  }
+
+  /**
+   * Leave empty tubes of the planned size, for a board that can't hold a puzzle
+   */
+  private clearBoard(plan: PuzzlePlan): void {
+    this.tubes = Array.from({ length: plan.tubeCount }, () =>
+      createMinimalTube([], plan.capacity)
+    )
+    this.capacity = plan.capacity
+    this.emptyTubeCount = plan.emptyTubeCount
+    this.ratingBand = plan.ratingBand
+  }
+
+  /**
+   * Run puzzle generation, solving its candidate boards on this thread
+   */
+  private generateNow(plan: PuzzlePlan): GeneratedBoard {
+    const generation = this.generatePuzzle(plan)
+    let step = generation.next()
+
+    while (!step.done) {
+      step = generation.next(this.solver.analyze(step.value, plan.capacity))
+    }
+    return step.value
+  }
+
+  /**
+   * Run puzzle generation, solving its candidate boards with the analyzer
+   * Resolves with null if the analyzer gives up
+   */
+  private async generateWith(
+    plan: PuzzlePlan,
+    analyze: BoardAnalyzer
+  ): Promise<GeneratedBoard | null> {
+    const generation = this.generatePuzzle(plan)
+    let step = generation.next()
+
+    while (!step.done) {
+      const result = await analyze(step.value, plan.capacity)
+      if (!result) return null
+
+      step = generation.next(result)
+    }
+    return step.value
+  }
+
+  /**
+   * Make a generated board the current puzzle, reusing its solver result
+   * for the rating
+   */
+  private startGeneratedPuzzle(plan: PuzzlePlan, board: GeneratedBoard): void {
+    this.tubes = board.colors.map((colors) => createMinimalTube(colors, plan.capacity))
+    this.capacity = plan.capacity
+    this.emptyTubeCount = plan.emptyTubeCount
+    this.ratingBand = plan.ratingBand
+    this.puzzleSeed = plan.seed
+
+    this.startPuzzle([])
+    this.recordInitialResult(board.result)
+  }
+
+  /**
+   * Record the current tubes as the starting board and start playing with
+   * the given moves already made
+   */
+  private startPuzzle(moves: Move[]): void {
+    this.scoreMetrics = this.createScoreMetrics()
+    this.currentScore = 0
+    this.recordInitialState()
+
+    moves.forEach((move) => this.applyMove(move))
+    this.moveHistory = moves
+    this.redoStack = []
+    this.scoreMetrics.moveCount = this.moveHistory.length
+  }
+
+  /**
+   * Generate a solvable puzzle by starting from a solved state and applying random valid moves in reverse
+   *
+   * Yields each candidate board and expects its solver result back, so the
+   * solving can happen on this thread or in a background solver. Returns
+   * the chosen board with its result.
+   */
+  private *generatePuzzle(
+    plan: PuzzlePlan
+  ): Generator<number[][], GeneratedBoard, SolverResult> {
+    const { tubeCount, capacity: tubeHeight } = plan
+    const colorCount = tubeCount - plan.emptyTubeCount // The remaining tubes will be empty
+    const random = new SeededRandom(plan.seed)
+    const tubes = Array.from({ length: tubeCount }, () =>
+      createMinimalTube([], tubeHeight)
+    )
+    const getColors = () => tubes.map((tube) => [...tube.colors])
+
+    // Keep the solvable board closest to the rating band in case none lands in it
+    let bestBoard: (GeneratedBoard & { distance: number }) | null = null
+    let attempts = 0
+
+    while (attempts < MAX_GENERATION_ATTEMPTS) {
+      attempts++
+
+      // 1. Start with a solved state: each color fills exactly one tube
+      this.fillSolvedState(tubes, colorCount, tubeHeight)
+
+      // 2. Apply random moves in reverse to shuffle the puzzle
+      // Number of random moves determines difficulty
+      const shuffleMoves = tubeHeight * tubeCount * 2 // Adjust for desired difficulty
+
+      for (let move = 0; move < shuffleMoves; move++) {
+        this.applyRandomReversePour(tubes, random)
+      }
+      this.drainEmptyTubes(tubes, random, colorCount)
+
+      // 3. Rate the puzzle; unsolvable boards have no rating
+      const colors = getColors()
+      const result: SolverResult = yield colors
+      if (!result.moves) continue
+
+      const rating = ratePuzzle(colors, result.moves, result.stats)
+      const distance = this.getRatingDistance(rating, plan.ratingBand)
+      if (distance === 0) return { colors, result }
+
+      if (!bestBoard || distance < bestBoard.distance) {
+        bestBoard = { colors, result, distance }
+      }
+    }
+
+    if (bestBoard) {
+      console.warn("No puzzle matched the requested rating band. Using the closest one.")
+      return { colors: bestBoard.colors, result: bestBoard.result }
+    }
+
+    // If we couldn't generate a solvable puzzle after MAX_GENERATION_ATTEMPTS,
+    // create a simple solvable puzzle (almost solved state)
+    console.warn("Could not generate a complex solvable puzzle after multiple attempts. Creating a simpler puzzle.")
+    this.createSimpleSolvablePuzzle(tubes, random, colorCount, tubeHeight)
+    let colors = getColors()
+    let result: SolverResult = yield colors
+
+    // Double-check that the simpler puzzle is solvable
+    if (result.solvability !== "solvable") {
+      console.warn("Generated puzzle is not solvable. Trying again with a simpler puzzle.")
+      this.createSimpleSolvablePuzzle(tubes, random, colorCount, tubeHeight)
+      colors = getColors()
+      result = yield colors
+    }
+
+    return { colors, result }
+  }
+
+  /**
+   * How far a rating falls outside a rating band
+   */
+  private getRatingDistance(rating: PuzzleRating, ratingBand: RatingBand | null): number {
+    if (!ratingBand) return 0
+
+    return Math.max(
+      ratingBand.MIN - rating.score,
+      rating.score - ratingBand.MAX,
+      0
+    )
+  }
+
+  /**
+   * Create a simple solvable puzzle (almost solved state with just a few moves needed)
+   */
+  private createSimpleSolvablePuzzle(
+    tubes: MinimalTube[],
+    random: SeededRandom,
+    colorCount: number,
+    tubeHeight: number
+  ): void {
+    // Start with a solved state
+    this.fillSolvedState(tubes, colorCount, tubeHeight)
+
+    // Apply just a few random reverse pours to make it slightly challenging but definitely solvable
+    const simpleMoves = Math.min(5, tubeHeight)
+
+    for (let move = 0; move < simpleMoves; move++) {
+      this.applyRandomReversePour(tubes, random)
+    }
+    this.drainEmptyTubes(tubes, random, colorCount)
+  }
+
+  /**
+   * Fill each tube with a single color, except for the last tubes which remain empty
+   */
+  private fillSolvedState(tubes: MinimalTube[], colorCount: number, tubeHeight: number): void {
+    tubes.forEach((tube, index) => {
+      tube.colors = index < colorCount ? Array(tubeHeight).fill(index) : []
+    })
+  }
+
+  /**
+   * Move the colors the shuffle left in the tubes past the first colorCount
+   * onto random other tubes, one segment at a time, so the board starts with
+   * the planned number of empty tubes
+   */
+  private drainEmptyTubes(tubes: MinimalTube[], random: SeededRandom, colorCount: number): void {
+    const colorTubes = tubes.slice(0, colorCount)
+
+    for (const tube of tubes.slice(colorCount)) {
+      let color = tube.getTopColor()
+
+      while (color !== null) {
+        // The color tubes have exactly as much room left as the others hold
+        const toTube = random.pick(
+          colorTubes.filter((colorTube) => colorTube.colors.length < colorTube.maxHeight)
+        )
+        tube.removeTopColors(1)
+        toTube.addColors(color, 1)
+        color = tube.getTopColor()
+      }
+    }
+  }
+
+  /**
+   * Apply a random valid reverse pour (moving liquid from one tube to another)
+   */
+  private applyRandomReversePour(tubes: MinimalTube[], random: SeededRandom): void {
+    const tubeCount = tubes.length
+    const validMoves: { fromIndex: number; toIndex: number; count: number }[] =
+      []
+
+    // Find all valid reverse pours
+    for (let fromIndex = 0; fromIndex < tubeCount; fromIndex++) {
+      const fromTube = tubes[fromIndex]
+
+      // Skip if source tube is empty
+      if (fromTube.isEmpty()) continue
+
+      for (let toIndex = 0; toIndex < tubeCount; toIndex++) {
+        if (fromIndex === toIndex) continue // Can't pour to the same tube
+
+        const toTube = tubes[toIndex]
+
+        // In a reverse pour, we only need space in the destination, and we
+        // move just one segment at a time as we're constructing a path backwards
+        if (toTube.colors.length < toTube.maxHeight) {
+          validMoves.push({ fromIndex, toIndex, count: 1 })
+        }
+      }
+    }
+
+    // If there are valid moves, pick one randomly and apply it
+    if (validMoves.length > 0) {
+      const randomMove = random.pick(validMoves)
+      const fromTube = tubes[randomMove.fromIndex]
+      const toTube = tubes[randomMove.toIndex]
+      const color = fromTube.getTopColor()
+
+      if (color !== null) {
+        fromTube.removeTopColors(randomMove.count)
+        toTube.addColors(color, randomMove.count)
+      }
+    }
+  }
+
+  /**
+   * Validates that a planned board can hold a puzzle
+   */
+  private validatePlan(plan: PuzzlePlan): boolean {
+    if (!plan.tubeCount || plan.capacity < 1) {
+      console.error("No tubes available for mixing colors")
+      return false
+    }
+
+    const colorCount = plan.tubeCount - plan.emptyTubeCount
+    if (colorCount < 1 || colorCount > COLOR_PALETTE.length) {
+      console.error(
+        `Cannot fill ${plan.tubeCount} tubes with ${plan.emptyTubeCount} empty`
+      )
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Create fresh scoring metrics for a new puzzle
+   */
+  private createScoreMetrics(): ScoreMetrics {
+    return {
+      moveCount: 0,
+      optimalMoveCount: null,
+      completedTubes: 0,
+      totalTubes: this.tubes.length,
+      startTime: this.now(),
+      currentTime: this.now(),
+      hintsUsed: 0,
+    }
+  }
+
+  /**
+   * Remember the starting tube colors so the puzzle can be exported
+   * The puzzle is left unrated until its starting board is solved, unless
+   * its color counts already show it can't be.
+   */
+  private recordInitialState(): void {
+    this.initialColors = this.getTubeColors()
+    this.knownSolvability.clear()
+    this.initialResult = null
+    this.puzzleRating = null
+
+    if (!hasValidColorCounts(this.initialColors, this.capacity)) {
+      this.recordInitialResult(UNSOLVABLE_BY_COLOR_COUNT)
+    }
+  }
+
+  /**
+   * Load a puzzle from its text representation and replay its recorded moves
+   * Returns false if the text is invalid
+   */
+  loadState(text: string): boolean {
+    let puzzle: PuzzleDefinition
+    try {
+      puzzle = parsePuzzle(text)
+    } catch (error) {
+      console.error("Could not parse puzzle", error)
+      return false
+    }
+
+    return this.load(puzzle)
+  }
+
+  /**
+   * Load a parsed puzzle and replay its recorded moves
+   * Returns false if a move is invalid, leaving the current puzzle untouched.
+   * The puzzle isn't rated until rate or rateAsync solves its starting board.
+   */
+  load(puzzle: PuzzleDefinition): boolean {
+    // Replay the moves on minimal tubes first so an invalid move leaves the board untouched
+    const simulatedTubes = puzzle.tubes.map((colors) =>
+      createMinimalTube(colors, puzzle.capacity)
+    )
+    const moves: Move[] = []
+
+    for (const { fromIndex, toIndex } of puzzle.moves) {
+      const move = this.calculateMove(simulatedTubes, fromIndex, toIndex)
+      if (!move) {
+        console.error(`Recorded move ${fromIndex}-${toIndex} is not valid`)
+        return false
+      }
+
+      simulatedTubes[fromIndex].removeTopColors(move.count)
+      simulatedTubes[toIndex].addColors(move.color, move.count)
+      moves.push(move)
+    }
+
+    this.tubes = puzzle.tubes.map((colors) =>
+      createMinimalTube(colors, puzzle.capacity)
+    )
+    this.capacity = puzzle.capacity
+    this.puzzleSeed = puzzle.seed
+    // Keep the same board shape when the player resets for a new puzzle
+    this.emptyTubeCount = Math.max(
+      1,
+      puzzle.tubes.length - new Set(puzzle.tubes.flat()).size
+    )
+
+    this.startPuzzle(moves)
+
+    return true
+  }
+
+  /**
+   * Export the current puzzle as text, by default including the moves played so far
+   */
+  exportState(options: { includeMoves?: boolean } = {}): string {
+    const includeMoves = options.includeMoves ?? true
+
+    return serializePuzzle({
+      capacity: this.capacity,
+      tubes: this.initialColors,
+      seed: this.puzzleSeed,
+      moves: includeMoves
+        ? this.moveHistory.map(({ fromIndex, toIndex }) => ({
+            fromIndex,
+            toIndex,
+          }))
+        : [],
+    })
+  }
+
+  /**
+   * Get the current colors of every tube, bottom-to-top
+   */
+  getTubeColors(): number[][] {
+    return this.tubes.map((tube) => [...tube.colors])
+  }
+
+  /**
+   * Get the number of color segments each tube holds
+   */
+  getCapacity(): number {
+    return this.capacity
+  }
+
+  private setTubeColors(tubeColors: number[][]): void {
+    this.tubes.forEach((tube, index) => {
+      tube.colors = [...tubeColors[index]]
+    })
+  }
+
+  /**
+   * Check if a tube holds no colors
+   */
+  isTubeEmpty(index: number): boolean {
+    return this.tubes[index]?.isEmpty() ?? true
+  }
+
+  /**
+   * Work out the move a pour between two tubes would make, without making it
+   * Returns null if the pour isn't allowed
+   */
+  getPour(fromIndex: number, toIndex: number): Move | null {
+    return this.calculateMove(this.tubes, fromIndex, toIndex)
+  }
+
+  /**
+   * Pour liquid from one tube to another
+   * Returns the move made, or null if the pour isn't allowed
+   */
+  pour(fromIndex: number, toIndex: number): Move | null {
+    const move = this.getPour(fromIndex, toIndex)
+    if (!move) return null
+
+    // A new move invalidates any undone moves
+    this.redoStack = []
+    this.recordMove(move)
+
+    return move
+  }
+
+  /**
+   * Undo the last move
+   * Returns the move taken back, or null if there is nothing to undo
+   */
+  undo(): Move | null {
+    const lastMove = this.moveHistory.pop()
+    if (!lastMove) return null
+
+    this.redoStack.push(lastMove)
+
+    // Move the colors back from the destination tube to the source tube
+    this.tubes[lastMove.toIndex].removeTopColors(lastMove.count)
+    this.tubes[lastMove.fromIndex].addColors(lastMove.color, lastMove.count)
+
+    // Update move count in score metrics
+    this.scoreMetrics.moveCount = this.moveHistory.length
+
+    return lastMove
+  }
+
+  /**
+   * Redo the last undone move
+   * Returns the move replayed, or null if there is nothing to redo
+   */
+  redo(): Move | null {
+    const move = this.redoStack.pop()
+    if (!move) return null
+
+    // Replay the move exactly as it was originally poured
+    this.recordMove(move)
+
+    return move
+  }
+
+  /**
+   * Check if there is a move to undo
+   */
+  canUndo(): boolean {
+    return this.moveHistory.length > 0
+  }
+
+  /**
+   * Check if there is an undone move to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  private recordMove(move: Move): void {
+    this.applyMove(move)
+    this.moveHistory.push(move)
+
+    // Update move count in score metrics
+    this.scoreMetrics.moveCount = this.moveHistory.length
+  }
+
+  private applyMove(move: Move): void {
+    this.tubes[move.fromIndex].removeTopColors(move.count)
+    this.tubes[move.toIndex].addColors(move.color, move.count)
+  }
+
+  /**
+   * Work out the move a pour between two of the given tubes makes
+   */
+  private calculateMove(
+    tubes: MinimalTube[],
+    fromIndex: number,
+    toIndex: number
+  ): Move | null {
+    const fromTube = tubes[fromIndex]
+    const toTube = tubes[toIndex]
+    if (!fromTube || !toTube || fromIndex === toIndex) return null
+
+    const pourAttempt = this.calculatePourAttempt(fromTube, toTube)
+    const color = fromTube.getTopColor()
+    if (!pourAttempt.canPour || color === null) return null
+
+    // Pour as many segments as fit in the destination
+    const count = Math.min(
+      pourAttempt.segmentsToPour,
+      toTube.maxHeight - toTube.colors.length
+    )
+    return { fromIndex, toIndex, color, count }
+  }
+
+  /**
+   * Calculate if a pour attempt is valid and how many segments can be poured
+   */
+  private calculatePourAttempt(
+    fromTube: MinimalTube,
+    toTube: MinimalTube
+  ): PourAttempt {
+    if (fromTube.isEmpty()) {
+      return { canPour: false, segmentsToPour: 0 }
+    }
+
+    const topFromColor = fromTube.getTopColor()
+    if (topFromColor === null) {
+      return { canPour: false, segmentsToPour: 0 }
+    }
+
+    const segmentsToPour = fromTube.getConsecutiveTopColors()
+    const toTopColor = toTube.getTopColor()
+    const spaceAvailable = toTube.maxHeight - toTube.colors.length
+
+    // Can only pour if destination has enough space and color matches or is empty
+    const canPour =
+      spaceAvailable > 0 && (toTopColor === null || toTopColor === topFromColor)
+
+    return { canPour, segmentsToPour }
+  }
+
+  /**
+   * Check the current game state
+   */
+  checkGameState(): GameState {
+    return {
+      solved: this.isSolved(),
+      solvability: this.getKnownSolvability() ?? "unknown",
+      score: this.calculateScore(),
+    }
+  }
+
+  /**
+   * Check if the game is solved
+   */
+  isSolved(): boolean {
+    // Game is solved if all tubes are either empty or contain the same color up to the max height
+    return this.tubes.every((tube) => tube.isCompleted())
+  }
+
+  /**
+   * Check if the current tubes are solvable without running the solver
+   * Returns null if only a solver search can tell
+   */
+  getKnownSolvability(): Solvability | null {
+    if (!this.tubes.length) return "unknown"
+
+    // Check for quick exit conditions
+    if (this.isSolved()) return "solvable"
+    if (!this.hasValidColorCounts() || !this.hasLegalMove()) {
+      return "unsolvable"
+    }
+
+    return this.getCachedResult()?.solvability ?? null
+  }
+
+  /**
+   * Check if any pour is possible at all, without running the solver
+   */
+  private hasLegalMove(): boolean {
+    return this.tubes.some((fromTube, fromIndex) =>
+      this.tubes.some(
+        (toTube, toIndex) =>
+          fromIndex !== toIndex &&
+          this.calculatePourAttempt(fromTube, toTube).canPour
+      )
+    )
+  }
+
+  /**
+   * Check if the current game state is solvable
+   * Runs the solver if the answer isn't known yet
+   */
+  isSolvable(): boolean {
+    if (!this.tubes.length) return false
+
+    // Check for quick exit conditions
+    if (this.isSolved()) return true
+    if (!this.hasValidColorCounts()) return false
+
+    return this.analyze().solvability === "solvable"
+  }
+
+  /**
+   * Find the shortest sequence of moves that solves the current tubes
+   * Returns null if the puzzle is unsolvable or too large to search
+   */
+  findOptimalSolution(): Move[] | null {
+    const moves = this.analyze().moves
+    return moves ? [...moves] : null
+  }
+
+  /**
+   * Run the solver on the current tubes, reusing the last result while the
+   * board is unchanged
+   */
+  analyze(): SolverResult {
+    const cached = this.getCachedResult()
+    if (cached) return cached
+
+    const result = this.analyzeColors(this.getTubeColors())
+    this.recordSolverResult(this.getStateHash(), result)
+
+    return result
+  }
+
+  /**
+   * Solve the given tubes on this thread, skipping the search when their
+   * color counts already rule out a solution
+   */
+  private analyzeColors(tubeColors: number[][]): SolverResult {
+    if (!hasValidColorCounts(tubeColors, this.capacity)) return UNSOLVABLE_BY_COLOR_COUNT
+
+    return this.solver.analyze(tubeColors, this.capacity)
+  }
+
+  /**
+   * Get the solver result for the current tubes if it is already known
+   */
+  getCachedResult(): SolverResult | null {
+    return this.cachedSolution?.stateHash === this.getStateHash()
+      ? this.cachedSolution
+      : null
+  }
+
+  /**
+   * Remember a solver result for a board, e.g. one found off the main thread
+   */
+  recordSolverResult(stateHash: string, result: SolverResult): void {
+    this.cachedSolution = { stateHash, ...result }
+    this.knownSolvability.set(stateHash, result.solvability)
+  }
+
+  /**
+   * Key identifying a set of tube colors, by default the current ones
+   */
+  getStateHash(tubeColors: number[][] = this.tubes.map((tube) => tube.colors)): string {
+    return tubeColors.map((colors) => colors.join(",")).join("|")
+  }
+
+  /**
+   * Find the fewest moves to undo to get back to a solvable board
+   * Boards not checked yet are passed to solve; resolves with null if no
+   * earlier board is known to be solvable or the board changes meanwhile
+   */
+  async findRecoveryDepth(
+    solve: (tubeColors: number[][]) => Promise<SolverResult | null>
+  ): Promise<number | null> {
+    const stateHash = this.getStateHash()
+    const boards = this.getHistoryBoards()
+
+    for (let undoCount = 1; undoCount < boards.length; undoCount++) {
+      const colors = boards[boards.length - 1 - undoCount]
+      const boardHash = this.getStateHash(colors)
+      let solvability = this.knownSolvability.get(boardHash)
+
+      if (solvability === undefined) {
+        const result = await solve(colors)
+        if (!result || stateHash !== this.getStateHash()) return null
+
+        solvability = result.solvability
+        this.knownSolvability.set(boardHash, solvability)
+      }
+
+      if (solvability === "solvable") return undoCount
+    }
+
+    return null
+  }
+
+  /**
+   * Tube colors at the start of the puzzle and after each move played
+   */
+  private getHistoryBoards(): number[][][] {
+    const tubes = this.initialColors.map((colors) =>
+      createMinimalTube(colors, this.capacity)
+    )
+    const boards = [this.initialColors.map((colors) => [...colors])]
+
+    for (const move of this.moveHistory) {
+      tubes[move.fromIndex].removeTopColors(move.count)
+      tubes[move.toIndex].addColors(move.color, move.count)
+      boards.push(tubes.map((tube) => [...tube.colors]))
+    }
+
+    return boards
+  }
+
+  /**
+   * Get the difficulty rating of the current puzzle's starting board
+   * Returns null if the puzzle could not be solved or hasn't been rated yet
+   */
+  getRating(): PuzzleRating | null {
+    return this.puzzleRating
+  }
+
+  /**
+   * Check if the starting board has been solved to rate the puzzle
+   */
+  isRated(): boolean {
+    return this.initialResult !== null
+  }
+
+  /**
+   * Rate the puzzle and set its optimal move count, solving the starting
+   * board on this thread if it hasn't been solved yet
+   * Returns null if the puzzle could not be solved
+   */
+  rate(): PuzzleRating | null {
+    if (!this.initialResult) {
+      this.recordInitialResult(this.analyzeColors(this.initialColors))
+    }
+    return this.puzzleRating
+  }
+
+  /**
+   * Rate the puzzle like rate, solving the starting board with the given
+   * analyzer, e.g. a background solver
+   * Resolves with false if the analyzer gives up or another puzzle is
+   * started meanwhile
+   */
+  async rateAsync(analyze: BoardAnalyzer): Promise<boolean> {
+    if (this.initialResult) return true
+
+    const initialColors = this.initialColors
+    const result = await analyze(this.getInitialColors(), this.capacity)
+    if (!result || initialColors !== this.initialColors) return false
+
+    this.recordInitialResult(result)
+    return true
+  }
+
+  /**
+   * Rate the puzzle and set its optimal move count from the solver result
+   * for its starting board
+   */
+  private recordInitialResult(result: SolverResult): void {
+    const stateHash = this.getStateHash(this.initialColors)
+    this.initialResult = result
+
+    // The starting board is still in play until the first move
+    if (stateHash === this.getStateHash()) {
+      this.recordSolverResult(stateHash, result)
+    } else {
+      this.knownSolvability.set(stateHash, result.solvability)
+    }
+
+    this.puzzleRating = result.moves
+      ? ratePuzzle(this.initialColors, result.moves, result.stats)
+      : null
+    // Fall back to a heuristic estimate if the solver cannot find a solution
+    this.scoreMetrics.optimalMoveCount =
+      result.moves?.length ?? this.estimateOptimalMoveCount()
+  }
+
+  private hasValidColorCounts(): boolean {
+    return hasValidColorCounts(
+      this.tubes.map((tube) => tube.colors),
+      this.capacity
+    )
+  }
+
+  /**
+   * Count a hint against the score
+   */
+  recordHint(): void {
+    this.scoreMetrics.hintsUsed++
+  }
+
+  /**
+   * Get the seed used to generate the current puzzle
+   * Returns null for puzzles loaded without a seed
+   */
+  getSeed(): number | null {
+    return this.puzzleSeed
+  }
+
+  /**
+   * Get the tube colors at the start of the current puzzle
+   */
+  getInitialColors(): number[][] {
+    return this.initialColors.map((colors) => [...colors])
+  }
+
+  /**
+   * Get the moves played so far, oldest first
+   */
+  getMoveHistory(): Move[] {
+    return this.moveHistory.map((move) => ({ ...move }))
+  }
+
+  /**
+   * Get the number of moves made
+   */
+  getMoveCount(): number {
+    return this.moveHistory.length
+  }
+
+  /**
+   * Estimate the optimal number of moves to solve the puzzle
+   * This is a heuristic based on the number of color segments that need to be moved
+   */
+  private estimateOptimalMoveCount(): number {
+    // Count the number of color segments that need to be moved
+    let segmentsToMove = 0
+    const colorCounts: Record<number, number> = {}
+
+    // Count colors in each tube of the starting board
+    for (const colors of this.initialColors) {
+      let lastColor: number | null = null
+
+      for (let i = colors.length - 1; i >= 0; i--) {
+        const color = colors[i]
+
+        // Initialize color count if not exists
+        if (colorCounts[color] === undefined) {
+          colorCounts[color] = 0
+        }
+        colorCounts[color]++
+
+        // If color changes, we have a new segment
+        if (lastColor !== null && lastColor !== color) {
+          segmentsToMove++
+        }
+
+        lastColor = color
+      }
+    }
+
+    // Minimum moves is at least the number of segments minus the number of colors
+    // (since each color needs to be in one tube)
+    const colorCount = Object.keys(colorCounts).length
+
+    // Heuristic: Each color needs to be consolidated, which takes at least
+    // (segments - colors) moves, plus some overhead for moving between tubes
+    return Math.max(segmentsToMove - colorCount, colorCount)
+  }
+
+  /**
+   * Calculate the current score based on various metrics
+   */
+  calculateScore(): number {
+    // Update current time
+    this.scoreMetrics.currentTime = this.now()
+
+    // Count completed tubes
+    this.scoreMetrics.completedTubes = this.tubes.filter((tube) =>
+      tube.isCompleted()
+    ).length
+
+    // Base score starts at 1000
+    let score = 1000
+
+    // Deduct points for excess moves if we have an optimal estimate
+    if (this.scoreMetrics.optimalMoveCount !== null) {
+      // A board that starts solved has no moves to compare against
+      const moveEfficiency =
+        this.scoreMetrics.optimalMoveCount === 0
+          ? 1
+          : Math.max(
+              0,
+              1 -
+                (this.scoreMetrics.moveCount - this.scoreMetrics.optimalMoveCount) /
+                  (this.scoreMetrics.optimalMoveCount * 2)
+            )
+      score *= moveEfficiency
+    } else {
+      // If we don't have an optimal estimate, use a simpler formula
+      const moveDeduction = Math.min(500, this.scoreMetrics.moveCount * 5)
+      score -= moveDeduction
+    }
+
+    // Add points for completed tubes
+    const completionBonus =
+      (this.scoreMetrics.completedTubes / this.scoreMetrics.totalTubes) * 500
+    score += completionBonus
+
+    // Deduct points for each hint used
+    score -= this.scoreMetrics.hintsUsed * HINT_PENALTY
+
+    // Time factor (gentle penalty for taking longer)
+    const timeElapsedSeconds =
+      (this.scoreMetrics.currentTime - this.scoreMetrics.startTime) / 1000
+    const timeFactor = Math.max(0.5, 1 - timeElapsedSeconds / 300) // 5 minutes to reach 50% penalty
+    score *= timeFactor
+
+    // Ensure score is never negative
+    score = Math.max(0, Math.round(score))
+
+    // Update current score
+    this.currentScore = score
+
+    return score
+  }
+
+  /**
+   * Get the current score
+   */
+  getScore(): number {
+    return this.currentScore
+  }
+
+  /**
+   * Restore saved play time and hint usage for a reloaded game
+   */
+  restoreScoreMetrics(progress: { elapsedMs: number; hintsUsed: number }): void {
+    this.scoreMetrics.startTime = this.now() - Math.max(0, progress.elapsedMs)
+    this.scoreMetrics.hintsUsed = Math.max(0, progress.hintsUsed)
+  }
+
+  /**
+   * Get the scoring metrics
+   */
+  getScoringMetrics(): ScoreMetrics {
+    return { ...this.scoreMetrics }
+  }
+}
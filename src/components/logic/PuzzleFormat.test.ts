@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { MAX_CAPACITY, MAX_TUBES, parsePuzzle, serializePuzzle } from "./PuzzleFormat"
+
+describe("parsePuzzle", () => {
+  it("reads back a serialized puzzle", () => {
+    const puzzle = {
+      capacity: 2,
+      tubes: [[0, 1], [1, 0], []],
+      seed: 42,
+      moves: [{ fromIndex: 0, toIndex: 2 }],
+    }
+
+    expect(parsePuzzle(serializePuzzle(puzzle))).toEqual(puzzle)
+  })
+
+  it("accepts tubes up to the largest capacity", () => {
+    expect(parsePuzzle(`v1;${MAX_CAPACITY};a/-`).capacity).toBe(MAX_CAPACITY)
+  })
+
+  it("refuses capacities outside the supported range", () => {
+    expect(() => parsePuzzle("v1;0;a/-")).toThrow(/capacity/)
+    expect(() => parsePuzzle(`v1;${MAX_CAPACITY + 1};a/-`)).toThrow(/capacity/)
+    // Too large for the solver's one byte per tube fill level
+    expect(() => parsePuzzle("v1;256;a/-")).toThrow(/capacity/)
+  })
+
+  it("refuses boards with more tubes than the game can lay out", () => {
+    const tubes = (count: number) => ["a", ...Array(count - 1).fill("-")].join("/")
+
+    expect(parsePuzzle(`v1;1;${tubes(MAX_TUBES)}`).tubes).toHaveLength(MAX_TUBES)
+    expect(() => parsePuzzle(`v1;1;${tubes(MAX_TUBES + 1)}`)).toThrow(/tubes/)
+    expect(() => parsePuzzle(`v1;8;${tubes(500)}`)).toThrow(/tubes/)
+  })
+})
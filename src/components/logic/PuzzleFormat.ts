@@ -0,0 +1,142 @@
+import { COLOR_PALETTE } from "@/lib/constants"
+import { PuzzleDefinition } from "@/lib/types"
+
+/**
+ * Compact, versioned text format for puzzles
+ *
+ *   v1;4;aabc/bbca/ccab/-;seed=12345;moves=0-3,1-3
+ *
+ * Sections are separated by ";":
+ * - format version
+ * - tube capacity
+ * - tubes separated by "/", colors listed bottom-to-top as letters
+ *   ("a" is palette color 0, "b" is color 1, ...) and "-" for an empty tube
+ * - optional "seed=" with the generator seed
+ * - optional "moves=" with comma separated "from-to" tube indexes
+ */
+export const PUZZLE_FORMAT_VERSION = "v1"
+
+/**
+ * Largest tube capacity a puzzle may have, which keeps pasted and shared
+ * boards within what the solver can search and the tubes can draw
+ */
+export const MAX_CAPACITY = 8
+
+/**
+ * Most tubes a puzzle may have, as many as the game can lay out
+ */
+export const MAX_TUBES = 12
+
+const EMPTY_TUBE = "-"
+const COLOR_CHAR_OFFSET = "a".charCodeAt(0)
+
+/**
+ * Convert a puzzle into its text representation
+ */
+export function serializePuzzle(puzzle: PuzzleDefinition): string {
+  const tubes = puzzle.tubes
+    .map((colors) =>
+      colors.length === 0
+        ? EMPTY_TUBE
+        : colors
+            .map((color) => String.fromCharCode(COLOR_CHAR_OFFSET + color))
+            .join("")
+    )
+    .join("/")
+
+  const sections = [PUZZLE_FORMAT_VERSION, String(puzzle.capacity), tubes]
+
+  if (puzzle.seed !== null) {
+    sections.push(`seed=${puzzle.seed}`)
+  }
+  if (puzzle.moves.length > 0) {
+    sections.push(
+      `moves=${puzzle.moves
+        .map((move) => `${move.fromIndex}-${move.toIndex}`)
+        .join(",")}`
+    )
+  }
+
+  return sections.join(";")
+}
+
+/**
+ * Parse a puzzle from its text representation
+ * Throws an error describing the problem if the text is not a valid puzzle
+ */
+export function parsePuzzle(text: string): PuzzleDefinition {
+  const [version, capacityText, tubesText, ...options] = text
+    .trim()
+    .split(";")
+
+  if (version !== PUZZLE_FORMAT_VERSION) {
+    throw new Error(`Unsupported puzzle format version "${version}"`)
+  }
+
+  const capacity = parseInteger(capacityText, "capacity")
+  if (capacity < 1 || capacity > MAX_CAPACITY) {
+    throw new Error(`Tube capacity must be between 1 and ${MAX_CAPACITY}`)
+  }
+
+  if (!tubesText) {
+    throw new Error("Puzzle has no tubes")
+  }
+  const tubeTexts = tubesText.split("/")
+  if (tubeTexts.length > MAX_TUBES) {
+    throw new Error(`Puzzle can have at most ${MAX_TUBES} tubes`)
+  }
+  const tubes = tubeTexts.map((tubeText, index) => {
+    if (tubeText === EMPTY_TUBE) return []
+
+    const colors = Array.from(tubeText, (char) => {
+      const color = char.charCodeAt(0) - COLOR_CHAR_OFFSET
+      if (color < 0 || color >= COLOR_PALETTE.length) {
+        throw new Error(`Unknown color "${char}" in tube ${index}`)
+      }
+      return color
+    })
+
+    if (colors.length === 0 || colors.length > capacity) {
+      throw new Error(
+        `Tube ${index} must hold between 1 and ${capacity} colors or be "${EMPTY_TUBE}"`
+      )
+    }
+    return colors
+  })
+
+  const puzzle: PuzzleDefinition = { capacity, tubes, seed: null, moves: [] }
+
+  for (const option of options) {
+    const [key, value] = option.split("=")
+
+    if (key === "seed") {
+      puzzle.seed = parseInteger(value, "seed")
+    } else if (key === "moves") {
+      puzzle.moves = value.split(",").map((moveText) => {
+        const [fromIndex, toIndex] = moveText
+          .split("-")
+          .map((index) => parseInteger(index, "move"))
+
+        if (
+          toIndex === undefined ||
+          fromIndex >= tubes.length ||
+          toIndex >= tubes.length
+        ) {
+          throw new Error(`Invalid move "${moveText}"`)
+        }
+        return { fromIndex, toIndex }
+      })
+    } else {
+      throw new Error(`Unknown puzzle option "${option}"`)
+    }
+  }
+
+  return puzzle
+}
+
+function parseInteger(text: string | undefined, name: string): number {
+  if (!text || !/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${name} "${text ?? ""}"`)
+  }
+  return Number(text)
+}
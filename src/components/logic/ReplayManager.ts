@@ -0,0 +1,284 @@
+import { APP_WIDTH, COLORS, HEX_COLORS } from "@/lib/constants"
+import { Move } from "@/lib/types"
+import { Tube } from "../objects/Tube"
+import MainScene from "../scenes/MainScene"
+
+const REPLAY_STEP_DELAY = 900 // Milliseconds between moves at 1x speed
+const POUR_ANIMATION_DURATION = 500 // Matches the normal pour animation at 1x
+const REPLAY_SPEEDS = [1, 2, 4]
+
+/**
+ * Replays a finished game move by move on the scene's tubes
+ * Provides play/pause, step forward/back and speed controls
+ */
+export class ReplayManager {
+  private active = false
+  private playing = false
+  private speed = REPLAY_SPEEDS[0]
+  private tubes: Tube[] = []
+  private initialColors: number[][] = []
+  private moves: Move[] = []
+  private moveIndex = 0
+  private timer: Phaser.Time.TimerEvent | null = null
+  private onExit: (() => void) | null = null
+
+  private inputBlocker: Phaser.GameObjects.Rectangle | null = null
+  private controls: Phaser.GameObjects.Container | null = null
+  private progressText: Phaser.GameObjects.Text | null = null
+  private playButton: Phaser.GameObjects.Text | null = null
+  private speedButton: Phaser.GameObjects.Text | null = null
+
+  constructor(private readonly game: MainScene) {}
+
+  /**
+   * Check if a replay is currently showing
+   */
+  public isActive(): boolean {
+    return this.active
+  }
+
+  /**
+   * Reset the tubes to their starting colors and begin replaying the moves
+   * onExit is called after the board is restored to its final state
+   */
+  public start(
+    tubes: Tube[],
+    initialColors: number[][],
+    moves: Move[],
+    onExit: () => void
+  ): void {
+    if (this.active) return
+
+    this.active = true
+    this.tubes = tubes
+    this.initialColors = initialColors.map((colors) => [...colors])
+    this.moves = [...moves]
+    this.moveIndex = 0
+    this.speed = REPLAY_SPEEDS[0]
+    this.onExit = onExit
+
+    this.showStartingBoard()
+    this.createControls()
+    this.play()
+  }
+
+  /**
+   * Stop the replay, restore the final board and remove the controls
+   */
+  public stop(): void {
+    if (!this.active) return
+
+    this.pause()
+    while (this.moveIndex < this.moves.length) {
+      this.applyMove(this.moves[this.moveIndex], false)
+      this.moveIndex++
+    }
+
+    this.cleanupControls()
+    this.active = false
+
+    const onExit = this.onExit
+    this.onExit = null
+    onExit?.()
+  }
+
+  /**
+   * Start or resume automatic playback
+   */
+  public play(): void {
+    // Restart from the beginning if the replay already finished
+    if (this.moveIndex >= this.moves.length) {
+      this.showStartingBoard()
+    }
+
+    this.playing = true
+    this.scheduleNextStep()
+    this.updateControls()
+  }
+
+  /**
+   * Pause automatic playback
+   */
+  public pause(): void {
+    this.playing = false
+    this.timer?.remove()
+    this.timer = null
+    this.updateControls()
+  }
+
+  /**
+   * Play the next move
+   */
+  public stepForward(): void {
+    if (this.moveIndex >= this.moves.length) return
+
+    this.applyMove(this.moves[this.moveIndex], true)
+    this.moveIndex++
+    this.updateControls()
+  }
+
+  /**
+   * Take back the previous move
+   */
+  public stepBack(): void {
+    if (this.moveIndex === 0) return
+
+    this.moveIndex--
+    const move = this.moves[this.moveIndex]
+    const fromTube = this.tubes[move.toIndex]
+    const toTube = this.tubes[move.fromIndex]
+
+    fromTube.pourTo(toTube, this.getPourDuration())
+    fromTube.removeTopColors(move.count)
+    toTube.addColors(move.color, move.count)
+    this.updateControls()
+  }
+
+  /**
+   * Switch to the next playback speed (1x, 2x, 4x)
+   */
+  public cycleSpeed(): void {
+    const index = REPLAY_SPEEDS.indexOf(this.speed)
+    this.speed = REPLAY_SPEEDS[(index + 1) % REPLAY_SPEEDS.length]
+
+    if (this.playing) {
+      this.scheduleNextStep()
+    }
+    this.updateControls()
+  }
+
+  private showStartingBoard(): void {
+    this.moveIndex = 0
+    this.tubes.forEach((tube, index) => {
+      tube.colors = [...(this.initialColors[index] ?? [])]
+      tube.draw()
+    })
+  }
+
+  private applyMove(move: Move, animate: boolean): void {
+    const fromTube = this.tubes[move.fromIndex]
+    const toTube = this.tubes[move.toIndex]
+
+    // Animate before moving colors so the drop uses the poured color
+    if (animate) {
+      fromTube.pourTo(toTube, this.getPourDuration())
+    }
+    fromTube.removeTopColors(move.count)
+    toTube.addColors(move.color, move.count)
+  }
+
+  private scheduleNextStep(): void {
+    this.timer?.remove()
+    this.timer = this.game.time.addEvent({
+      delay: REPLAY_STEP_DELAY / this.speed,
+      loop: true,
+      callback: () => {
+        this.stepForward()
+        if (this.moveIndex >= this.moves.length) {
+          this.pause()
+        }
+      },
+    })
+  }
+
+  private getPourDuration(): number {
+    return POUR_ANIMATION_DURATION / this.speed
+  }
+
+  /**
+   * Create the replay control bar and block input to the board underneath
+   */
+  private createControls(): void {
+    // Nearly invisible, but still interactive, so clicks don't reach the game
+    this.inputBlocker = this.game.add
+      .rectangle(APP_WIDTH / 2, this.game.scale.height / 2, APP_WIDTH, this.game.scale.height, 0x000000, 0.01)
+      .setInteractive()
+
+    this.controls = this.game.add.container(APP_WIDTH / 2, this.game.scale.height - 75)
+
+    const background = this.game.add
+      .rectangle(0, 0, APP_WIDTH - 100, 100, COLORS.DARK_OLIVE_GREEN, 1)
+      .setStrokeStyle(2, COLORS.WHITE)
+
+    this.progressText = this.game.add
+      .text(0, -32, "", {
+        fontSize: "16px",
+        fontFamily: "monospace",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+
+    const stepBackButton = this.createButton(-240, "< STEP", () => {
+      this.pause()
+      this.stepBack()
+    })
+    this.playButton = this.createButton(-120, "PAUSE", () => {
+      if (this.playing) {
+        this.pause()
+      } else {
+        this.play()
+      }
+    })
+    const stepForwardButton = this.createButton(0, "STEP >", () => {
+      this.pause()
+      this.stepForward()
+    })
+    this.speedButton = this.createButton(120, "1X", () => this.cycleSpeed())
+    const exitButton = this.createButton(240, "EXIT", () => this.stop())
+
+    this.controls.add([
+      background,
+      this.progressText,
+      stepBackButton,
+      this.playButton,
+      stepForwardButton,
+      this.speedButton,
+      exitButton,
+    ])
+    this.updateControls()
+  }
+
+  private createButton(
+    x: number,
+    label: string,
+    onClick: () => void
+  ): Phaser.GameObjects.Text {
+    const button = this.game.add
+      .text(x, 12, label, {
+        fontSize: "18px",
+        backgroundColor: HEX_COLORS.DARK_GREEN,
+        padding: { left: 12, right: 12, top: 6, bottom: 6 },
+        color: HEX_COLORS.WHITE,
+        align: "center",
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", onClick)
+      .on("pointerover", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.GREEN })
+      })
+      .on("pointerout", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.DARK_GREEN })
+      })
+
+    return button
+  }
+
+  private updateControls(): void {
+    this.progressText?.setText(
+      `REPLAY: MOVE ${this.moveIndex}/${this.moves.length}`
+    )
+    this.playButton?.setText(this.playing ? "PAUSE" : "PLAY")
+    this.speedButton?.setText(`${this.speed}X`)
+  }
+
+  private cleanupControls(): void {
+    this.controls?.destroy()
+    this.inputBlocker?.destroy()
+    this.controls = null
+    this.inputBlocker = null
+    this.progressText = null
+    this.playButton = null
+    this.speedButton = null
+  }
+}
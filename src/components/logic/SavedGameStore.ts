@@ -0,0 +1,117 @@
+import { DIFFICULTY } from "@/lib/constants"
+import { BoardSettings, DifficultyLevel, GameMode, LevelRef } from "@/lib/types"
+import { CUSTOM_BOARD_LIMITS } from "./CustomBoardDialog"
+
+const STORAGE_KEY = "water-pour-fun:game"
+
+/**
+ * Bump when the saved game shape changes; older saves are discarded
+ */
+export const SAVED_GAME_VERSION = 1
+
+/**
+ * An in-progress game persisted across page reloads
+ */
+export interface SavedGame {
+  version: number
+  mode: GameMode
+  difficulty: DifficultyLevel
+  // Board dimensions when playing a custom difficulty
+  customBoard?: BoardSettings
+  // Level being played in levels mode
+  level?: LevelRef
+  // Starting board and moves played, in the text puzzle format
+  puzzle: string
+  elapsedMs: number
+  hintsUsed: number
+}
+
+/**
+ * Saves and restores the in-progress game in local storage
+ */
+export class SavedGameStore {
+  /**
+   * Load the saved game, or null if there is none or it can't be used
+   */
+  load(): SavedGame | null {
+    let stored: string | null
+    try {
+      stored = window.localStorage.getItem(STORAGE_KEY)
+    } catch (error) {
+      console.warn("Could not read saved game", error)
+      return null
+    }
+    if (!stored) return null
+
+    try {
+      const parsed = JSON.parse(stored)
+      if (this.isValidSavedGame(parsed)) {
+        return parsed
+      }
+      console.warn("Discarding saved game from an unsupported version")
+    } catch (error) {
+      console.warn("Discarding corrupt saved game", error)
+    }
+
+    this.clear()
+    return null
+  }
+
+  /**
+   * Save the current game
+   */
+  save(game: Omit<SavedGame, "version">): void {
+    try {
+      window.localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ version: SAVED_GAME_VERSION, ...game })
+      )
+    } catch (error) {
+      console.warn("Could not save game", error)
+    }
+  }
+
+  /**
+   * Remove the saved game
+   */
+  clear(): void {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY)
+    } catch (error) {
+      console.warn("Could not clear saved game", error)
+    }
+  }
+
+  private isValidSavedGame(value: unknown): value is SavedGame {
+    const game = value as Partial<SavedGame> | null
+    return (
+      game?.version === SAVED_GAME_VERSION &&
+      (game.mode === "classic" ||
+        game.mode === "daily" ||
+        (game.mode === "levels" &&
+          typeof game.level?.packId === "string" &&
+          typeof game.level.levelId === "string")) &&
+      typeof game.difficulty === "string" &&
+      (Object.hasOwn(DIFFICULTY, game.difficulty) || game.difficulty === "CUSTOM") &&
+      (game.customBoard === undefined || this.isValidCustomBoard(game.customBoard)) &&
+      typeof game.puzzle === "string" &&
+      typeof game.elapsedMs === "number" &&
+      typeof game.hintsUsed === "number"
+    )
+  }
+
+  /**
+   * Check that every custom board setting is a whole number the custom board
+   * dialog allows
+   */
+  private isValidCustomBoard(value: unknown): value is BoardSettings {
+    const board = value as Record<string, unknown> | null
+    if (typeof board !== "object" || board === null) return false
+
+    return (Object.keys(CUSTOM_BOARD_LIMITS) as (keyof BoardSettings)[]).every((key) => {
+      const setting = board[key]
+      const { min, max } = CUSTOM_BOARD_LIMITS[key]
+      return Number.isInteger(setting) && Number(setting) >= min && Number(setting) <= max
+    })
+  }
+}
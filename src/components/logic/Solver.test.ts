@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import { Move } from "@/lib/types"
+import { createMinimalTube, PuzzleSolver } from "./Solver"
+
+/**
+ * Play moves on a copy of the tubes and return the final colors
+ */
+function replay(tubeColors: number[][], maxHeight: number, moves: Move[]): number[][] {
+  const tubes = tubeColors.map((colors) => createMinimalTube(colors, maxHeight))
+
+  for (const move of moves) {
+    const fromTube = tubes[move.fromIndex]
+    const toTube = tubes[move.toIndex]
+    const toTopColor = toTube.getTopColor()
+
+    expect(fromTube.getTopColor()).toBe(move.color)
+    expect(toTopColor === null || toTopColor === move.color).toBe(true)
+    expect(toTube.colors.length + move.count).toBeLessThanOrEqual(maxHeight)
+
+    fromTube.removeTopColors(move.count)
+    toTube.addColors(move.color, move.count)
+  }
+
+  return tubes.map((tube) => tube.colors)
+}
+
+describe("createMinimalTube", () => {
+  it("counts the run of matching colors at the top", () => {
+    expect(createMinimalTube([], 4).getConsecutiveTopColors()).toBe(0)
+    expect(createMinimalTube([1, 2, 2], 4).getConsecutiveTopColors()).toBe(2)
+    expect(createMinimalTube([2, 1, 2], 4).getConsecutiveTopColors()).toBe(1)
+    expect(createMinimalTube([3, 3, 3, 3], 4).getConsecutiveTopColors()).toBe(4)
+  })
+
+  it("treats empty and full single-color tubes as completed", () => {
+    expect(createMinimalTube([], 4).isCompleted()).toBe(true)
+    expect(createMinimalTube([1, 1, 1, 1], 4).isCompleted()).toBe(true)
+    expect(createMinimalTube([1, 1, 1], 4).isCompleted()).toBe(false)
+    expect(createMinimalTube([1, 1, 2, 1], 4).isCompleted()).toBe(false)
+  })
+
+  it("copies the colors it is given", () => {
+    const colors = [1, 2]
+    const tube = createMinimalTube(colors, 4)
+
+    tube.addColors(2, 2)
+    expect(colors).toEqual([1, 2])
+    expect(tube.colors).toEqual([1, 2, 2, 2])
+  })
+})
+
+describe("PuzzleSolver", () => {
+  const solver = new PuzzleSolver()
+
+  it("returns no moves for a solved board", () => {
+    const result = solver.analyze([[0, 0], [1, 1], []], 2)
+
+    expect(result.solvability).toBe("solvable")
+    expect(result.moves).toEqual([])
+  })
+
+  it("finds the shortest solution", () => {
+    const tubeColors = [[0, 1], [1, 0], []]
+    const moves = solver.solve(tubeColors, 2)
+
+    expect(moves).toHaveLength(3)
+    expect(replay(tubeColors, 2, moves!).every((colors) =>
+      createMinimalTube(colors, 2).isCompleted()
+    )).toBe(true)
+  })
+
+  it("solves a generated-size board with a valid move sequence", () => {
+    const tubeColors = [
+      [0, 1, 2, 0],
+      [2, 1, 0, 1],
+      [1, 2, 0, 2],
+      [],
+      [],
+    ]
+    const moves = solver.solve(tubeColors, 4)
+
+    expect(moves).not.toBeNull()
+    expect(replay(tubeColors, 4, moves!).every((colors) =>
+      createMinimalTube(colors, 4).isCompleted()
+    )).toBe(true)
+  })
+
+  it("reports boards without a way out as unsolvable", () => {
+    const result = solver.analyze([[0, 1], [1, 0]], 2)
+
+    expect(result.solvability).toBe("unsolvable")
+    expect(result.moves).toBeNull()
+  })
+
+  it("keys boards the same whatever order their tubes are in", () => {
+    const tubeColors = [[0, 1, 2], [2, 1], [], [1, 0, 0]]
+    const permuted = [tubeColors[3], tubeColors[2], tubeColors[0], tubeColors[1]]
+
+    expect(solver.getStateKey(permuted, 3)).toBe(solver.getStateKey(tubeColors, 3))
+    expect(solver.getStateKey([[0, 1, 2], [2, 1], [1], [1, 0, 0]], 3)).not.toBe(
+      solver.getStateKey(tubeColors, 3)
+    )
+    // Tubes too tall to pack into numbers use string keys
+    expect(solver.getStateKey(permuted, 12)).toBe(solver.getStateKey(tubeColors, 12))
+  })
+
+  it("searches permuted boards the same way", () => {
+    const tubeColors = [
+      [0, 1, 2, 0],
+      [2, 1, 0, 1],
+      [1, 2, 0, 2],
+      [],
+      [],
+    ]
+    const permuted = [tubeColors[3], tubeColors[2], tubeColors[0], tubeColors[4], tubeColors[1]]
+
+    const result = solver.analyze(tubeColors, 4)
+    const permutedResult = solver.analyze(permuted, 4)
+
+    expect(permutedResult.moves).toHaveLength(result.moves!.length)
+    expect(permutedResult.stats.expandedStates).toBe(result.stats.expandedStates)
+  })
+
+  it("gives up with an unknown result when the search is too large", () => {
+    const result = new PuzzleSolver(1).analyze([[0, 1], [1, 0], []], 2)
+
+    expect(result.solvability).toBe("unknown")
+    expect(result.moves).toBeNull()
+  })
+})
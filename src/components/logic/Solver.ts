@@ -0,0 +1,467 @@
+import { MinimalTube, Move, SearchStats, Solvability } from "@/lib/types"
+
+const MAX_SEARCH_STATES = 500000
+
+// Canonical keys pack each tube into one number, one base-32 digit per byte;
+// 10 digits (32^10 = 2^50) stay below Number.MAX_SAFE_INTEGER
+const KEY_DIGIT_BASE = 32
+const MAX_NUMERIC_KEY_DIGITS = 10
+
+/**
+ * Board state packed into bytes: for each tube, its fill level followed by
+ * maxHeight color slots (colors bottom-to-top, unused slots zero)
+ */
+type PackedState = Uint8Array
+
+interface SearchNode {
+  state: PackedState
+  key: string
+  cost: number
+  priority: number
+}
+
+interface ParentLink {
+  parentKey: string
+  move: Move
+}
+
+/**
+ * Creates a minimal tube for simulating pours without rendering
+ */
+export function createMinimalTube(
+  colors: number[],
+  maxHeight: number
+): MinimalTube {
+  return {
+    colors: [...colors],
+    maxHeight,
+    isEmpty(): boolean {
+      return this.colors.length === 0
+    },
+    isCompleted(): boolean {
+      return (
+        this.isEmpty() ||
+        (this.colors.length === this.maxHeight &&
+          this.colors.every((color) => color === this.colors[0]))
+      )
+    },
+    getTopColor(): number | null {
+      return this.colors.length > 0
+        ? this.colors[this.colors.length - 1]
+        : null
+    },
+    getConsecutiveTopColors(): number {
+      if (this.isEmpty()) return 0
+
+      const topColor = this.getTopColor()
+      let count = 0
+
+      for (let i = this.colors.length - 1; i >= 0; i--) {
+        if (this.colors[i] === topColor) {
+          count++
+        } else {
+          break
+        }
+      }
+
+      return count
+    },
+    removeTopColors(count: number): void {
+      this.colors.splice(this.colors.length - count, count)
+    },
+    addColors(color: number, count: number): void {
+      for (let i = 0; i < count; i++) {
+        this.colors.push(color)
+      }
+    },
+  }
+}
+
+/**
+ * Binary min-heap keyed on search node priority
+ */
+class NodeQueue {
+  private heap: SearchNode[] = []
+
+  get size(): number {
+    return this.heap.length
+  }
+
+  push(node: SearchNode): void {
+    this.heap.push(node)
+    let index = this.heap.length - 1
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!this.isBefore(this.heap[index], this.heap[parent])) break
+      this.swap(index, parent)
+      index = parent
+    }
+  }
+
+  pop(): SearchNode | undefined {
+    const top = this.heap[0]
+    const last = this.heap.pop()
+
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last
+      let index = 0
+
+      while (true) {
+        const left = index * 2 + 1
+        const right = left + 1
+        let smallest = index
+
+        if (
+          left < this.heap.length &&
+          this.isBefore(this.heap[left], this.heap[smallest])
+        ) {
+          smallest = left
+        }
+        if (
+          right < this.heap.length &&
+          this.isBefore(this.heap[right], this.heap[smallest])
+        ) {
+          smallest = right
+        }
+        if (smallest === index) break
+
+        this.swap(index, smallest)
+        index = smallest
+      }
+    }
+
+    return top
+  }
+
+  /**
+   * Lower f-score first; on ties prefer deeper nodes so we reach goals sooner,
+   * then go by key so the search order doesn't depend on tube order
+   */
+  private isBefore(a: SearchNode, b: SearchNode): boolean {
+    if (a.priority !== b.priority) return a.priority < b.priority
+    if (a.cost !== b.cost) return a.cost > b.cost
+    return a.key < b.key
+  }
+
+  private swap(i: number, j: number): void {
+    const temp = this.heap[i]
+    this.heap[i] = this.heap[j]
+    this.heap[j] = temp
+  }
+}
+
+/**
+ * Finds shortest solutions for tube configurations using A* search
+ *
+ * The heuristic counts color runs (maximal blocks of one color within a tube)
+ * beyond one per color. A pour can merge at most one run into another, so the
+ * heuristic never overestimates and the first solution found is optimal.
+ *
+ * States are packed into byte arrays and deduplicated by a canonical key
+ * that ignores tube order, so boards that differ only by which tube holds
+ * what are searched once. Nodes keep their real tube order, so the moves
+ * found always refer to the tubes as they appear on screen.
+ */
+export class PuzzleSolver {
+  constructor(private readonly maxStates: number = MAX_SEARCH_STATES) {}
+
+  /**
+   * Return the shortest list of moves that solves the given tubes, or null if
+   * the puzzle is unsolvable or the search space limit was reached
+   */
+  solve(tubeColors: number[][], maxHeight: number): Move[] | null {
+    return this.analyze(tubeColors, maxHeight).moves
+  }
+
+  /**
+   * Solve the given tubes and report whether a solution exists and how much
+   * searching it took
+   */
+  analyze(
+    tubeColors: number[][],
+    maxHeight: number
+  ): { solvability: Solvability; moves: Move[] | null; stats: SearchStats } {
+    const stats: SearchStats = { expandedStates: 0, branches: 0, deadEnds: 0 }
+    const stride = maxHeight + 1
+    const initialState = this.packState(tubeColors, maxHeight)
+    const initialKey = this.getCanonicalKey(initialState, stride)
+
+    const queue = new NodeQueue()
+    const bestCost = new Map<string, number>([[initialKey, 0]])
+    const parents = new Map<string, ParentLink>()
+
+    queue.push({
+      state: initialState,
+      key: initialKey,
+      cost: 0,
+      priority: this.estimatePackedMoves(initialState, stride),
+    })
+
+    while (queue.size > 0) {
+      const node = queue.pop()!
+
+      // Skip stale queue entries that were improved after being queued
+      if (node.cost > (bestCost.get(node.key) ?? Infinity)) continue
+
+      if (this.isSolvedState(node.state, stride)) {
+        return {
+          solvability: "solvable",
+          moves: this.reconstructPath(node.key, parents),
+          stats,
+        }
+      }
+
+      const nextStates = this.generateNextStates(node.state, stride)
+      stats.expandedStates++
+      stats.branches += nextStates.length
+      if (nextStates.length === 0) {
+        stats.deadEnds++
+      }
+
+      for (const { state, move } of nextStates) {
+        const key = this.getCanonicalKey(state, stride)
+        const cost = node.cost + 1
+
+        if (cost >= (bestCost.get(key) ?? Infinity)) continue
+
+        bestCost.set(key, cost)
+        parents.set(key, { parentKey: node.key, move })
+        queue.push({
+          state,
+          key,
+          cost,
+          priority: cost + this.estimatePackedMoves(state, stride),
+        })
+
+        // Limit the search space to prevent excessive memory usage
+        if (bestCost.size > this.maxStates) {
+          console.warn(
+            `Search space too large (${bestCost.size} states), stopping solver`
+          )
+          return { solvability: "unknown", moves: null, stats }
+        }
+      }
+    }
+
+    // Every reachable state was explored without finding a solution
+    return { solvability: "unsolvable", moves: null, stats }
+  }
+
+  /**
+   * Lower bound on the number of moves needed to solve the given tubes
+   */
+  estimateRemainingMoves(tubes: MinimalTube[]): number {
+    const maxHeight = Math.max(0, ...tubes.map((tube) => tube.maxHeight))
+    return this.estimatePackedMoves(
+      this.packState(
+        tubes.map((tube) => tube.colors),
+        maxHeight
+      ),
+      maxHeight + 1
+    )
+  }
+
+  /**
+   * Key the search uses to recognise a board, the same whatever order the
+   * tubes are in
+   */
+  getStateKey(tubeColors: number[][], maxHeight: number): string {
+    return this.getCanonicalKey(this.packState(tubeColors, maxHeight), maxHeight + 1)
+  }
+
+  private packState(tubeColors: number[][], maxHeight: number): PackedState {
+    const stride = maxHeight + 1
+    const state = new Uint8Array(tubeColors.length * stride)
+
+    tubeColors.forEach((colors, tube) => {
+      const offset = tube * stride
+      state[offset] = colors.length
+      colors.forEach((color, index) => {
+        state[offset + 1 + index] = color
+      })
+    })
+
+    return state
+  }
+
+  private estimatePackedMoves(state: PackedState, stride: number): number {
+    const seenColors = new Uint8Array(256)
+    let colorCount = 0
+    let runs = 0
+
+    for (let offset = 0; offset < state.length; offset += stride) {
+      const length = state[offset]
+      for (let i = 1; i <= length; i++) {
+        const color = state[offset + i]
+        if (seenColors[color] === 0) {
+          seenColors[color] = 1
+          colorCount++
+        }
+        if (i === 1 || color !== state[offset + i - 1]) {
+          runs++
+        }
+      }
+    }
+
+    return runs - colorCount
+  }
+
+  private isSolvedState(state: PackedState, stride: number): boolean {
+    for (let offset = 0; offset < state.length; offset += stride) {
+      if (!this.isCompletedTube(state, offset, stride)) return false
+    }
+    return true
+  }
+
+  /**
+   * A tube is completed when it is empty or full of a single color
+   */
+  private isCompletedTube(
+    state: PackedState,
+    offset: number,
+    stride: number
+  ): boolean {
+    const length = state[offset]
+    if (length === 0) return true
+    if (length !== stride - 1) return false
+
+    for (let i = 2; i <= length; i++) {
+      if (state[offset + i] !== state[offset + 1]) return false
+    }
+    return true
+  }
+
+  /**
+   * Number of same-colored segments at the top of a tube
+   */
+  private countTopRun(state: PackedState, offset: number): number {
+    const length = state[offset]
+    const topColor = state[offset + length]
+    let count = 0
+
+    for (let i = length; i >= 1 && state[offset + i] === topColor; i--) {
+      count++
+    }
+    return count
+  }
+
+  /**
+   * Generate all useful next states from the current state
+   */
+  private generateNextStates(
+    state: PackedState,
+    stride: number
+  ): { state: PackedState; move: Move }[] {
+    const result: { state: PackedState; move: Move }[] = []
+    const maxHeight = stride - 1
+    const tubeCount = state.length / stride
+
+    for (let fromIndex = 0; fromIndex < tubeCount; fromIndex++) {
+      const fromOffset = fromIndex * stride
+      const fromLength = state[fromOffset]
+
+      // Skip if source tube is empty or already completed
+      if (fromLength === 0 || this.isCompletedTube(state, fromOffset, stride)) {
+        continue
+      }
+
+      const topFromColor = state[fromOffset + fromLength]
+      const segmentsToPour = this.countTopRun(state, fromOffset)
+      let triedEmptyTube = false
+
+      for (let toIndex = 0; toIndex < tubeCount; toIndex++) {
+        if (fromIndex === toIndex) continue // Can't pour to the same tube
+
+        const toOffset = toIndex * stride
+        const toLength = state[toOffset]
+        const spaceAvailable = maxHeight - toLength
+        if (spaceAvailable === 0) continue
+
+        if (toLength === 0) {
+          // Moving a single-color tube into an empty one changes nothing
+          if (segmentsToPour === fromLength) continue
+
+          // All empty tubes are interchangeable, so only try the first one
+          if (triedEmptyTube) continue
+          triedEmptyTube = true
+        } else if (state[toOffset + toLength] !== topFromColor) {
+          continue
+        }
+
+        const count = Math.min(segmentsToPour, spaceAvailable)
+        const nextState = state.slice()
+
+        for (let i = 0; i < count; i++) {
+          nextState[fromOffset + fromLength - i] = 0
+          nextState[toOffset + toLength + 1 + i] = topFromColor
+        }
+        nextState[fromOffset] = fromLength - count
+        nextState[toOffset] = toLength + count
+
+        result.push({
+          state: nextState,
+          move: { fromIndex, toIndex, color: topFromColor, count },
+        })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Key identifying a state regardless of tube order
+   */
+  private getCanonicalKey(state: PackedState, stride: number): string {
+    const tubeCount = state.length / stride
+
+    // Boards too large to pack exactly fall back to sorting per-tube strings
+    if (!this.canUseNumericKeys(state, stride)) {
+      const tubeKeys: string[] = []
+      for (let offset = 0; offset < state.length; offset += stride) {
+        tubeKeys.push(
+          String.fromCharCode(...state.subarray(offset, offset + stride))
+        )
+      }
+      return tubeKeys.sort().join("")
+    }
+
+    const tubeCodes = new Float64Array(tubeCount)
+    for (let tube = 0; tube < tubeCount; tube++) {
+      let code = 0
+      for (let i = tube * stride; i < (tube + 1) * stride; i++) {
+        code = code * KEY_DIGIT_BASE + state[i]
+      }
+      tubeCodes[tube] = code
+    }
+
+    return tubeCodes.sort().join(",")
+  }
+
+  private canUseNumericKeys(state: PackedState, stride: number): boolean {
+    if (stride > MAX_NUMERIC_KEY_DIGITS) return false
+
+    for (let i = 0; i < state.length; i++) {
+      if (state[i] >= KEY_DIGIT_BASE) return false
+    }
+    return true
+  }
+
+  /**
+   * Walk parent links back from the goal state to build the move list
+   */
+  private reconstructPath(
+    goalKey: string,
+    parents: Map<string, ParentLink>
+  ): Move[] {
+    const moves: Move[] = []
+    let link = parents.get(goalKey)
+
+    while (link) {
+      moves.unshift(link.move)
+      link = parents.get(link.parentKey)
+    }
+
+    return moves
+  }
+}
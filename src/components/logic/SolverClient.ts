@@ -0,0 +1,140 @@
+import { SolverRequest, SolverResponse, SolverResult } from "@/lib/types"
+import { serializePuzzle } from "./PuzzleFormat"
+import { PuzzleSolver } from "./Solver"
+
+interface PendingRequest {
+  tubeColors: number[][]
+  maxHeight: number
+  resolve: (result: SolverResult | null) => void
+}
+
+/**
+ * Sends solve requests to the solver worker and hands back the results
+ * Falls back to solving on the main thread where workers aren't available
+ */
+export class SolverClient {
+  private worker: Worker | null = null
+  private nextRequestId = 1
+  private pending = new Map<number, PendingRequest>()
+
+  constructor() {
+    if (typeof Worker === "undefined") return
+
+    try {
+      this.worker = new Worker(
+        new URL("./solver.worker.ts", import.meta.url),
+        { type: "module" }
+      )
+      this.worker.addEventListener(
+        "message",
+        (event: MessageEvent<SolverResponse>) => {
+          this.handleResponse(event.data)
+        }
+      )
+      this.worker.addEventListener("error", (event) => {
+        console.error("Solver worker failed, solving on the main thread", event)
+        this.stopWorker()
+      })
+    } catch (error) {
+      console.warn("Could not start solver worker, solving on the main thread", error)
+      this.worker = null
+    }
+  }
+
+  /**
+   * Queue a search for the shortest solution of the given tubes
+   * The result resolves with null if the request is cancelled
+   */
+  solve(
+    tubeColors: number[][],
+    maxHeight: number
+  ): { id: number; result: Promise<SolverResult | null> } {
+    const id = this.nextRequestId++
+    const result = new Promise<SolverResult | null>((resolve) => {
+      this.pending.set(id, {
+        tubeColors: tubeColors.map((colors) => [...colors]),
+        maxHeight,
+        resolve,
+      })
+    })
+
+    if (this.worker) {
+      this.post({
+        type: "solve",
+        id,
+        puzzle: serializePuzzle({
+          capacity: maxHeight,
+          tubes: tubeColors,
+          seed: null,
+          moves: [],
+        }),
+      })
+    } else {
+      this.solveOnMainThread(id)
+    }
+
+    return { id, result }
+  }
+
+  /**
+   * Cancel a request whose result is no longer needed
+   */
+  cancel(id: number): void {
+    const request = this.pending.get(id)
+    if (!request) return
+
+    this.pending.delete(id)
+    this.post({ type: "cancel", id })
+    request.resolve(null)
+  }
+
+  /**
+   * Stop the worker and cancel all outstanding requests
+   */
+  destroy(): void {
+    this.worker?.terminate()
+    this.worker = null
+
+    this.pending.forEach((request) => request.resolve(null))
+    this.pending.clear()
+  }
+
+  private post(request: SolverRequest): void {
+    this.worker?.postMessage(request)
+  }
+
+  private handleResponse(response: SolverResponse): void {
+    const request = this.pending.get(response.id)
+    if (!request) return
+
+    this.pending.delete(response.id)
+    request.resolve({
+      solvability: response.solvability,
+      moves: response.moves,
+      stats: response.stats,
+    })
+  }
+
+  /**
+   * Give up on the worker and finish its outstanding requests here instead
+   */
+  private stopWorker(): void {
+    this.worker?.terminate()
+    this.worker = null
+
+    this.pending.forEach((_, id) => this.solveOnMainThread(id))
+  }
+
+  private solveOnMainThread(id: number): void {
+    // Solve on a later task so results always arrive asynchronously
+    setTimeout(() => {
+      const request = this.pending.get(id)
+      if (!request) return
+
+      this.handleResponse({
+        id,
+        ...new PuzzleSolver().analyze(request.tubeColors, request.maxHeight),
+      })
+    }, 0)
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { APP_HEIGHT, APP_WIDTH, MAX_APP_HEIGHT } from "@/lib/constants"
+import { computeTubeLayout, getGameHeight } from "./TubeLayout"
+
+describe("getGameHeight", () => {
+  it("keeps the default height on landscape screens", () => {
+    expect(getGameHeight(1920, 1080)).toBe(APP_HEIGHT)
+  })
+
+  it("grows the game to fill portrait screens", () => {
+    expect(getGameHeight(400, 700)).toBe(APP_WIDTH * 1.75)
+    expect(getGameHeight(300, 1200)).toBe(MAX_APP_HEIGHT)
+  })
+})
+
+describe("computeTubeLayout", () => {
+  const landscape = { x: 20, y: 180, width: 760, height: 240 }
+  const portrait = { x: 20, y: 180, width: 760, height: 1040 }
+
+  it("keeps tubes full size in one row on a landscape screen", () => {
+    const layout = computeTubeLayout(5, landscape)
+
+    expect(layout.rows).toBe(1)
+    expect(layout.scale).toBe(1)
+    expect(layout.positions.map((position) => position.x)).toEqual([260, 330, 400, 470, 540])
+    expect(layout.positions.every((position) => position.y === 300)).toBe(true)
+  })
+
+  it("squeezes a large board into one row when there's no room for more", () => {
+    const layout = computeTubeLayout(14, landscape)
+
+    expect(layout.rows).toBe(1)
+    expect(layout.scale).toBeLessThan(1)
+    expect(layout.spacing).toBeCloseTo(layout.positions[1].x - layout.positions[0].x)
+    expect(layout.positions[0].x).toBeGreaterThanOrEqual(landscape.x)
+    expect(layout.positions[13].x).toBeLessThanOrEqual(landscape.x + landscape.width)
+  })
+
+  it("uses more rows of larger tubes on a portrait screen", () => {
+    const layout = computeTubeLayout(11, portrait)
+
+    expect(layout.rows).toBe(2)
+    expect(layout.scale).toBeGreaterThan(2)
+    // The shorter last row is centered under the first
+    const firstRow = layout.positions.slice(0, 6).map((position) => position.x)
+    const secondRow = layout.positions.slice(6).map((position) => position.x)
+    expect(firstRow[0] + firstRow[5]).toBeCloseTo(secondRow[0] + secondRow[4])
+    expect(layout.positions[6].y).toBeGreaterThan(layout.positions[0].y)
+  })
+
+  it("returns no positions for an empty board", () => {
+    expect(computeTubeLayout(0, landscape).positions).toEqual([])
+  })
+})
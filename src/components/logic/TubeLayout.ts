@@ -0,0 +1,88 @@
+import { APP_HEIGHT, APP_WIDTH, MAX_APP_HEIGHT } from "@/lib/constants"
+
+// Room each tube needs at full size: its width plus the smallest gap, and its
+// height plus space for the shadow, hover lift and pour animation
+const TUBE_SLOT_WIDTH = 60
+const TUBE_SLOT_HEIGHT = 240
+// Widest spacing between tube centers at full size
+const MAX_TUBE_SPACING = 70
+// Largest scale for tubes, so small boards on tall screens don't become huge
+const MAX_TUBE_SCALE = 2.2
+
+/**
+ * A rectangle of the game to place tubes in
+ */
+export interface LayoutArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Where to put each tube and how large to draw them
+ */
+export interface TubeLayout {
+  positions: { x: number; y: number }[]
+  scale: number
+  rows: number
+  // Distance between the centers of neighbouring tubes in a row
+  spacing: number
+}
+
+/**
+ * Height of the game for a viewport, so the game fills a portrait screen
+ *
+ * The game is always APP_WIDTH wide. Landscape screens get APP_HEIGHT;
+ * portrait screens get a taller game, which leaves room for more rows of tubes.
+ */
+export function getGameHeight(viewportWidth: number, viewportHeight: number): number {
+  if (viewportWidth <= 0 || viewportHeight <= 0) return APP_HEIGHT
+
+  const height = Math.round((APP_WIDTH * viewportHeight) / viewportWidth)
+  return Math.min(MAX_APP_HEIGHT, Math.max(APP_HEIGHT, height))
+}
+
+/**
+ * Lay tubes out in rows inside an area, picking the number of rows that lets
+ * them be drawn largest
+ *
+ * Rows are filled from the top and each row is centered, so a shorter last
+ * row sits in the middle.
+ */
+export function computeTubeLayout(tubeCount: number, area: LayoutArea): TubeLayout {
+  if (tubeCount <= 0) return { positions: [], scale: 1, rows: 0, spacing: 0 }
+
+  let best = { rows: 1, scale: 0 }
+  for (let rows = 1; rows <= tubeCount; rows++) {
+    const columns = Math.ceil(tubeCount / rows)
+    const scale = Math.min(
+      area.width / (columns * TUBE_SLOT_WIDTH),
+      area.height / (rows * TUBE_SLOT_HEIGHT),
+      MAX_TUBE_SCALE
+    )
+
+    // Only add a row when it makes the tubes larger
+    if (scale > best.scale) {
+      best = { rows, scale }
+    }
+  }
+
+  const { rows, scale } = best
+  const columns = Math.ceil(tubeCount / rows)
+  const spacing = Math.min(MAX_TUBE_SPACING * scale, area.width / columns)
+  const rowHeight = area.height / rows
+
+  const positions = Array.from({ length: tubeCount }, (_, index) => {
+    const row = Math.floor(index / columns)
+    const column = index % columns
+    const tubesInRow = Math.min(columns, tubeCount - row * columns)
+
+    return {
+      x: area.x + area.width / 2 + (column - (tubesInRow - 1) / 2) * spacing,
+      y: area.y + rowHeight * (row + 0.5),
+    }
+  })
+
+  return { positions, scale, rows, spacing }
+}
@@ -0,0 +1,65 @@
+import { SolverRequest, SolverResponse } from "@/lib/types"
+import { parsePuzzle } from "./PuzzleFormat"
+import { PuzzleSolver } from "./Solver"
+
+type SolveRequest = Extract<SolverRequest, { type: "solve" }>
+
+/**
+ * Runs the puzzle solver off the main thread
+ *
+ * Each queued request is solved on its own task, so cancel messages that
+ * arrive during a search are handled before the next request starts.
+ * A search that has already started always runs to completion.
+ */
+const solver = new PuzzleSolver()
+const queue: SolveRequest[] = []
+let isScheduled = false
+
+addEventListener("message", (event: MessageEvent<SolverRequest>) => {
+  const request = event.data
+
+  if (request.type === "cancel") {
+    const index = queue.findIndex((queued) => queued.id === request.id)
+    if (index !== -1) {
+      queue.splice(index, 1)
+    }
+    return
+  }
+
+  queue.push(request)
+  scheduleNextRequest()
+})
+
+function scheduleNextRequest(): void {
+  if (isScheduled || queue.length === 0) return
+
+  isScheduled = true
+  setTimeout(() => {
+    isScheduled = false
+
+    const request = queue.shift()
+    if (request) {
+      solveRequest(request)
+    }
+    scheduleNextRequest()
+  }, 0)
+}
+
+function solveRequest(request: SolveRequest): void {
+  let response: SolverResponse
+
+  try {
+    const puzzle = parsePuzzle(request.puzzle)
+    response = { id: request.id, ...solver.analyze(puzzle.tubes, puzzle.capacity) }
+  } catch (error) {
+    console.error("Solver worker received an invalid puzzle", error)
+    response = {
+      id: request.id,
+      solvability: "unknown",
+      moves: null,
+      stats: { expandedStates: 0, branches: 0, deadEnds: 0 },
+    }
+  }
+
+  postMessage(response)
+}
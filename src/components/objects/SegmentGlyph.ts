@@ -0,0 +1,184 @@
+type GlyphShape =
+  | "circle"
+  | "square"
+  | "triangle"
+  | "invertedTriangle"
+  | "diamond"
+  | "hexagon"
+  | "star"
+  | "plus"
+  | "cross"
+  | "horizontalBar"
+  | "verticalBar"
+  | "equals"
+  | "pause"
+  | "slash"
+  | "backslash"
+  | "chevronUp"
+  | "chevronDown"
+  | "dot"
+
+interface SegmentGlyph {
+  shape: GlyphShape
+  // Solid or outlined; line glyphs ignore this
+  filled: boolean
+}
+
+/**
+ * Glyph for each palette index, so colors can be told apart by shape alone
+ * The first few are the boldest since every board uses them.
+ */
+const SEGMENT_GLYPHS: SegmentGlyph[] = [
+  { shape: "circle", filled: true },
+  { shape: "square", filled: true },
+  { shape: "triangle", filled: true },
+  { shape: "plus", filled: false },
+  { shape: "cross", filled: false },
+  { shape: "circle", filled: false },
+  { shape: "square", filled: false },
+  { shape: "star", filled: true },
+  { shape: "diamond", filled: true },
+  { shape: "triangle", filled: false },
+  { shape: "diamond", filled: false },
+  { shape: "hexagon", filled: true },
+  { shape: "horizontalBar", filled: false },
+  { shape: "verticalBar", filled: false },
+  { shape: "star", filled: false },
+  { shape: "invertedTriangle", filled: true },
+  { shape: "hexagon", filled: false },
+  { shape: "slash", filled: false },
+  { shape: "backslash", filled: false },
+  { shape: "invertedTriangle", filled: false },
+  { shape: "equals", filled: false },
+  { shape: "pause", filled: false },
+  { shape: "chevronUp", filled: false },
+  { shape: "chevronDown", filled: false },
+  { shape: "dot", filled: true },
+]
+
+/**
+ * Draw the glyph for a palette index centered on (x, y)
+ * size is half the width of the glyph; ink should contrast with the liquid
+ */
+export function drawSegmentGlyph(
+  graphics: Phaser.GameObjects.Graphics,
+  colorIndex: number,
+  x: number,
+  y: number,
+  size: number,
+  ink: number
+) {
+  const glyph = SEGMENT_GLYPHS[colorIndex % SEGMENT_GLYPHS.length]
+  const lineWidth = Math.max(1.5, size / 4)
+
+  graphics.fillStyle(ink, 0.85)
+  graphics.lineStyle(lineWidth, ink, 0.85)
+
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    graphics.lineBetween(x + x1 * size, y + y1 * size, x + x2 * size, y + y2 * size)
+  }
+  const shape = (points: { x: number; y: number }[]) => {
+    const placed = points.map((point) => ({ x: x + point.x * size, y: y + point.y * size }))
+    if (glyph.filled) {
+      graphics.fillPoints(placed, true)
+    } else {
+      graphics.strokePoints(placed, true)
+    }
+  }
+
+  switch (glyph.shape) {
+    case "circle":
+      if (glyph.filled) {
+        graphics.fillCircle(x, y, size * 0.85)
+      } else {
+        graphics.strokeCircle(x, y, size * 0.8)
+      }
+      break
+    case "dot":
+      graphics.fillCircle(x, y, size * 0.35)
+      break
+    case "square":
+      shape([
+        { x: -0.75, y: -0.75 },
+        { x: 0.75, y: -0.75 },
+        { x: 0.75, y: 0.75 },
+        { x: -0.75, y: 0.75 },
+      ])
+      break
+    case "triangle":
+      shape([
+        { x: 0, y: -0.9 },
+        { x: 0.9, y: 0.7 },
+        { x: -0.9, y: 0.7 },
+      ])
+      break
+    case "invertedTriangle":
+      shape([
+        { x: -0.9, y: -0.7 },
+        { x: 0.9, y: -0.7 },
+        { x: 0, y: 0.9 },
+      ])
+      break
+    case "diamond":
+      shape([
+        { x: 0, y: -1 },
+        { x: 0.8, y: 0 },
+        { x: 0, y: 1 },
+        { x: -0.8, y: 0 },
+      ])
+      break
+    case "hexagon":
+      shape(getPolygonPoints(6, [0.9]))
+      break
+    case "star":
+      shape(getPolygonPoints(10, [1, 0.45]))
+      break
+    case "plus":
+      line(-0.9, 0, 0.9, 0)
+      line(0, -0.9, 0, 0.9)
+      break
+    case "cross":
+      line(-0.7, -0.7, 0.7, 0.7)
+      line(-0.7, 0.7, 0.7, -0.7)
+      break
+    case "horizontalBar":
+      line(-0.9, 0, 0.9, 0)
+      break
+    case "verticalBar":
+      line(0, -0.9, 0, 0.9)
+      break
+    case "equals":
+      line(-0.8, -0.35, 0.8, -0.35)
+      line(-0.8, 0.35, 0.8, 0.35)
+      break
+    case "pause":
+      line(-0.35, -0.8, -0.35, 0.8)
+      line(0.35, -0.8, 0.35, 0.8)
+      break
+    case "slash":
+      line(-0.7, 0.8, 0.7, -0.8)
+      break
+    case "backslash":
+      line(-0.7, -0.8, 0.7, 0.8)
+      break
+    case "chevronUp":
+      line(-0.8, 0.45, 0, -0.45)
+      line(0, -0.45, 0.8, 0.45)
+      break
+    case "chevronDown":
+      line(-0.8, -0.45, 0, 0.45)
+      line(0, 0.45, 0.8, -0.45)
+      break
+  }
+}
+
+/**
+ * Points around a regular polygon pointing up, alternating between the given radii
+ */
+function getPolygonPoints(count: number, radii: number[]): { x: number; y: number }[] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count
+    const radius = radii[i % radii.length]
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius }
+  })
+}
@@ -1,6 +1,30 @@
 import * as Phaser from "phaser"
 import { COLOR_PALETTE, COLORS } from "@/lib/constants"
+import { ColorSettings } from "@/lib/types"
 import { PhaserGraphics } from "@/utils/phaser-graphics"
+import { getContrastingInk, getPalette } from "../logic/ColorVision"
+import { drawSegmentGlyph } from "./SegmentGlyph"
+
+// Furthest a dragged tube leans, in degrees
+const MAX_DRAG_TILT = 35
+
+/**
+ * How a tube shows it would take a pour from the tube being dragged
+ */
+export interface DropTarget {
+  canPour: boolean
+  // True while the dragged tube is held over this one
+  hovered: boolean
+}
+
+/**
+ * Callbacks for a drag that starts on a tube
+ */
+export interface TubeDragListener {
+  onDragStart: (tube: Tube, pointer: Phaser.Input.Pointer) => void
+  onDrag: (tube: Tube, pointer: Phaser.Input.Pointer) => void
+  onDragEnd: (tube: Tube, pointer: Phaser.Input.Pointer) => void
+}
 
 export class Tube {
   private graphics: Phaser.GameObjects.Graphics
@@ -10,17 +34,38 @@ export class Tube {
   public colors: number[] = []
   private selected: boolean = false
   private hovered: boolean = false
-  private readonly TUBE_WIDTH = 50
-  private readonly TUBE_HEIGHT = 150
-  private readonly TUBE_RADIUS = 12
-  private readonly TUBE_BORDER_WIDTH = 3
+  private hinted: boolean = false
+  private focused: boolean = false
+  private dropTarget: DropTarget | null = null
+  // While picked up, the tube is drawn offset from its place and tilted
+  private dragging: boolean = false
+  private dragPose = { x: 0, y: 0, angle: 0 }
+  private hitArea?: Phaser.Geom.Rectangle
+  // Liquid colors by palette index, and whether to mark them with glyphs
+  private palette: number[] = COLOR_PALETTE
+  private patterns: boolean = false
+  // Sizes at full scale, multiplied by the tube's scale in the constructor
+  private readonly TUBE_WIDTH: number
+  private readonly TUBE_HEIGHT: number
+  private readonly TUBE_RADIUS: number
+  private readonly TUBE_BORDER_WIDTH: number
+  private readonly FOCUS_RING_GAP: number
 
   constructor(
     private scene: Phaser.Scene,
     public x: number,
     public y: number,
-    public maxHeight: number
+    public maxHeight: number,
+    public scale: number = 1,
+    // Distance to the neighbouring tubes' centers, which limits the hit area
+    private readonly spacing: number = Infinity
   ) {
+    this.TUBE_WIDTH = 50 * scale
+    this.TUBE_HEIGHT = 150 * scale
+    this.TUBE_RADIUS = 12 * scale
+    this.TUBE_BORDER_WIDTH = 3 * scale
+    this.FOCUS_RING_GAP = 6 * scale
+
     this.graphics = scene.add.graphics()
     this.glassReflection = scene.add.graphics()
     this.tubeHighlight = scene.add.graphics()
@@ -51,26 +96,31 @@ export class Tube {
     }
 
     this.tubeGlow = this.scene.add.sprite(this.x, this.y, textureName)
+    this.tubeGlow.setScale(this.scale)
     this.tubeGlow.setAlpha(0)
     this.tubeGlow.setBlendMode(Phaser.BlendModes.SCREEN)
   }
 
-  private simulatePour(toTube: Tube, color: number) {
+  private simulatePour(toTube: Tube, color: number, duration: number) {
     // Create a water drop sprite
     const drop = this.scene.add.graphics()
-    drop.fillStyle(COLOR_PALETTE[color], 1)
-    drop.fillCircle(0, 0, 12)
-    drop.setPosition(this.x, this.y - 60)
+    drop.fillStyle(this.palette[color], 1)
+    drop.fillCircle(0, 0, this.TUBE_RADIUS)
+
+    // Drops leave and land just below the mouth of each tube
+    const fromY = this.y - this.TUBE_HEIGHT * 0.4
+    const toY = toTube.y - toTube.TUBE_HEIGHT * 0.4
+    drop.setPosition(this.x, fromY)
 
     // Create a path for the drop to follow
-    const path = new Phaser.Curves.Path(this.x, this.y - 60)
+    const path = new Phaser.Curves.Path(this.x, fromY)
     path.cubicBezierTo(
       this.x,
-      this.y - 30,
+      this.y - this.TUBE_HEIGHT * 0.2,
       toTube.x,
-      toTube.y - 30,
+      toTube.y - toTube.TUBE_HEIGHT * 0.2,
       toTube.x,
-      toTube.y - 60
+      toY
     )
 
     // Animate the drop along the path
@@ -78,10 +128,10 @@ export class Tube {
       targets: drop,
       x: path.getPoints().map((p) => p.x),
       y: path.getPoints().map((p) => p.y),
-      duration: 500,
+      duration,
       onComplete: () => {
         // Create a splash effect
-        this.createSplashEffect(toTube.x, toTube.y - 60, color)
+        this.createSplashEffect(toTube.x, toY, color)
         drop.destroy()
       },
     })
@@ -100,7 +150,7 @@ export class Tube {
       scale: { start: 0.2, end: 0 },
       quantity: 15,
       lifespan: 600,
-      tint: COLOR_PALETTE[color],
+      tint: this.palette[color],
       blendMode: Phaser.BlendModes.SCREEN,
     })
 
@@ -123,9 +173,9 @@ export class Tube {
     PhaserGraphics.setFillStyle(this.graphics, { color: 0x000000, alpha: 0.2 })
     PhaserGraphics.drawFilledEllipse(this.graphics, {
       centerX: this.x,
-      centerY: this.y + 85,
-      width: this.TUBE_WIDTH + 10,
-      height: 20,
+      centerY: this.y + this.TUBE_HEIGHT / 2 + 10 * this.scale,
+      width: this.TUBE_WIDTH + 10 * this.scale,
+      height: 20 * this.scale,
     })
 
     // Draw the tube glass with rounded ends
@@ -157,6 +207,10 @@ export class Tube {
       borderColor = COLORS.CYAN
       borderWidth = this.TUBE_BORDER_WIDTH + 1
       borderAlpha = 1
+    } else if (this.dropTarget) {
+      borderColor = this.dropTarget.canPour ? COLORS.CHARTREUSE : COLORS.CRIMSON
+      borderWidth = this.TUBE_BORDER_WIDTH + (this.dropTarget.hovered ? 2 : 0)
+      borderAlpha = this.dropTarget.hovered ? 1 : 0.8
     } else if (this.hovered) {
       borderColor = COLORS.BRIGHT_ORANGE
       borderAlpha = 0.9
@@ -174,6 +228,15 @@ export class Tube {
     this.graphics.lineStyle(borderWidth, borderColor, borderAlpha)
     this.drawRoundedTube(x, y, width, height, radius)
     this.graphics.strokePath()
+
+    // Keyboard focus gets its own ring outside the border, so it shows
+    // alongside the hover and selected colors rather than replacing them
+    if (this.focused) {
+      const gap = this.FOCUS_RING_GAP
+      this.graphics.lineStyle(2, COLORS.WHITE, 1)
+      this.drawRoundedTube(x, y, width + gap * 2, height + gap * 2, radius + gap)
+      this.graphics.strokePath()
+    }
   }
 
   private drawRoundedTube(
@@ -277,7 +340,7 @@ export class Tube {
 
     // Draw each color segment
     this.colors.forEach((colorIndex, index) => {
-      const color = COLOR_PALETTE[colorIndex]
+      const color = this.palette[colorIndex]
       const isTopSegment = index === this.colors.length - 1
       const isBottomSegment = index === 0
       const segmentY = bottomY - index * segmentHeight - segmentHeight / 2
@@ -421,7 +484,7 @@ export class Tube {
 
         // Redraw the top segment with proper constraints
         PhaserGraphics.setFillStyle(this.graphics, {
-          color: COLOR_PALETTE[topColor],
+          color: this.palette[topColor],
         })
 
         // Calculate the visible portion height
@@ -441,7 +504,7 @@ export class Tube {
 
           // Add a subtle wave effect at the top
           PhaserGraphics.setFillStyle(this.graphics, {
-            color: COLOR_PALETTE[topColor],
+            color: this.palette[topColor],
           })
           PhaserGraphics.beginPath(this.graphics)
 
@@ -480,6 +543,23 @@ export class Tube {
         }
       }
     }
+
+    if (this.patterns) {
+      this.drawSegmentGlyphs(bottomY, segmentHeight)
+    }
+  }
+
+  /**
+   * Mark each segment with its color's glyph
+   */
+  private drawSegmentGlyphs(bottomY: number, segmentHeight: number) {
+    const size = Math.min(segmentHeight * 0.3, 8)
+
+    this.colors.forEach((colorIndex, index) => {
+      const segmentY = bottomY - index * segmentHeight - segmentHeight / 2
+      const ink = getContrastingInk(this.palette[colorIndex])
+      drawSegmentGlyph(this.graphics, colorIndex, this.x, segmentY, size, ink)
+    })
   }
 
   private drawGlassReflections() {
@@ -521,10 +601,18 @@ export class Tube {
   }
 
   private drawSelectionEffects() {
-    if (this.selected || this.hovered) {
+    if (this.dropTarget?.hovered) {
+      this.tubeGlow?.setAlpha(0.6)
+      this.tubeGlow?.setTint(this.dropTarget.canPour ? COLORS.CHARTREUSE : COLORS.CRIMSON)
+      this.tubeHighlight.clear()
+    } else if (this.selected || this.hovered || this.hinted) {
       if (this.tubeGlow) {
-        const glowAlpha = this.selected ? 0.5 : this.hovered ? 0.3 : 0
-        const glowColor = this.selected ? COLORS.CYAN : COLORS.BRIGHT_ORANGE
+        const glowAlpha = this.selected ? 0.5 : this.hinted ? 0.6 : 0.3
+        const glowColor = this.selected
+          ? COLORS.CYAN
+          : this.hinted
+            ? COLORS.CHARTREUSE
+            : COLORS.BRIGHT_ORANGE
 
         this.tubeGlow.setAlpha(glowAlpha)
         this.tubeGlow.setTint(glowColor)
@@ -537,15 +625,20 @@ export class Tube {
   }
 
   setupInteractions() {
-    const hitArea = new Phaser.Geom.Rectangle(
-      this.x - this.TUBE_WIDTH / 2 - 5,
-      this.y - this.TUBE_HEIGHT / 2 - 5,
-      this.TUBE_WIDTH + 10,
-      this.TUBE_HEIGHT + 10
+    // Reach into the gaps beside the tube, above its mouth and over its
+    // shadow so it's easy to hit with a finger, but only halfway across the
+    // gap so a tap between two tubes doesn't land on the wrong one
+    const padding = Math.max(10, 10 * this.scale)
+    const sidePadding = Math.max(0, Math.min(padding, (this.spacing - this.TUBE_WIDTH) / 2))
+    this.hitArea = new Phaser.Geom.Rectangle(
+      this.x - this.TUBE_WIDTH / 2 - sidePadding,
+      this.y - this.TUBE_HEIGHT / 2 - padding * 3,
+      this.TUBE_WIDTH + sidePadding * 2,
+      this.TUBE_HEIGHT + padding * 5
     )
 
     this.graphics
-      .setInteractive(hitArea, Phaser.Geom.Rectangle.Contains)
+      .setInteractive(this.hitArea, Phaser.Geom.Rectangle.Contains)
       .on("pointerover", this.onPointerOver, this)
       .on("pointerout", this.onPointerOut, this)
   }
@@ -553,6 +646,8 @@ export class Tube {
   onPointerOver() {
     this.hovered = true
     this.draw()
+    // A picked up tube is positioned by the drag instead
+    if (this.dragging) return
 
     this.scene.tweens.add({
       targets: [
@@ -570,6 +665,7 @@ export class Tube {
   onPointerOut() {
     this.hovered = false
     this.draw()
+    if (this.dragging) return
 
     this.scene.tweens.add({
       targets: [
@@ -589,6 +685,122 @@ export class Tube {
     this.draw()
   }
 
+  /**
+   * Show whether the tube being dragged could pour into this one, or null
+   * to clear it when the drag ends
+   */
+  setDropTarget(dropTarget: DropTarget | null) {
+    this.dropTarget = dropTarget
+    this.draw()
+  }
+
+  /**
+   * Check if a point is within the tube's hit area at its resting place
+   */
+  containsPoint(x: number, y: number): boolean {
+    return this.hitArea?.contains(x, y) ?? false
+  }
+
+  /**
+   * Pick the tube up so it can follow the pointer, drawn above the others
+   */
+  startDrag() {
+    this.dragging = true
+    this.scene.tweens.killTweensOf([...this.getDragTargets(), this.dragPose])
+    this.getDragTargets().forEach((target) => target.setDepth(1))
+  }
+
+  /**
+   * Move the picked up tube away from its place, leaning it toward the
+   * side it's moved to as if about to pour
+   */
+  moveDrag(offsetX: number, offsetY: number) {
+    this.dragPose.x = offsetX
+    this.dragPose.y = offsetY
+    this.dragPose.angle = Phaser.Math.Clamp(offsetX / 4, -MAX_DRAG_TILT, MAX_DRAG_TILT)
+    this.applyDragPose()
+  }
+
+  /**
+   * Put the tube back in its place
+   */
+  endDrag(duration: number = 200) {
+    this.scene.tweens.add({
+      targets: this.dragPose,
+      x: 0,
+      y: 0,
+      angle: 0,
+      duration,
+      ease: "Sine.easeOut",
+      onUpdate: () => this.applyDragPose(),
+      onComplete: () => {
+        this.dragging = false
+        this.getDragTargets().forEach((target) => target.setDepth(0))
+      },
+    })
+  }
+
+  private getDragTargets() {
+    const targets: (Phaser.GameObjects.Graphics | Phaser.GameObjects.Sprite)[] = [
+      this.graphics,
+      this.glassReflection,
+      this.tubeHighlight,
+    ]
+    if (this.tubeGlow) targets.push(this.tubeGlow)
+    return targets
+  }
+
+  private applyDragPose() {
+    const { x, y, angle } = this.dragPose
+    const rotation = Phaser.Math.DegToRad(angle)
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+
+    // The graphics are drawn at the tube's place in the scene, so rotating them
+    // turns them about the scene's origin; shift them back to turn about the tube
+    const graphicsX = this.x + x - (this.x * cos - this.y * sin)
+    const graphicsY = this.y + y - (this.x * sin + this.y * cos)
+    this.graphics.setPosition(graphicsX, graphicsY).setRotation(rotation)
+    this.glassReflection.setPosition(graphicsX, graphicsY).setRotation(rotation)
+    this.tubeHighlight.setPosition(graphicsX, graphicsY).setRotation(rotation)
+    this.tubeGlow?.setPosition(this.x + x, this.y + y).setRotation(rotation)
+  }
+
+  /**
+   * Remove all of the tube's graphics from the scene
+   */
+  destroy() {
+    this.graphics.destroy()
+    this.glassReflection.destroy()
+    this.tubeHighlight.destroy()
+    this.tubeGlow?.destroy()
+    this.scene.tweens.killTweensOf(this.dragPose)
+  }
+
+  setHinted(hinted: boolean) {
+    this.hinted = hinted
+    this.draw()
+  }
+
+  /**
+   * Change the palette and glyphs the liquids are drawn with
+   */
+  setColorSettings(settings: ColorSettings) {
+    this.palette = getPalette(settings.palette)
+    this.patterns = settings.patterns
+    this.draw()
+  }
+
+  /**
+   * Show or hide the keyboard focus ring
+   */
+  setFocused(focused: boolean) {
+    if (this.focused === focused) return
+
+    this.focused = focused
+    this.draw()
+  }
+
   // TODO: Implement this
   addClickListener(callback: (tube: Tube) => void) {
     this.graphics.on("pointerdown", () => {
@@ -596,11 +808,23 @@ export class Tube {
     })
   }
 
-  pourTo(targetTube: Tube) {
+  /**
+   * Let the tube be dragged, reporting the drag to the listener
+   * Presses still reach click listeners first, so a tap without a drag is a click
+   */
+  addDragListener(listener: TubeDragListener) {
+    this.scene.input.setDraggable(this.graphics)
+    this.graphics
+      .on("dragstart", (pointer: Phaser.Input.Pointer) => listener.onDragStart(this, pointer))
+      .on("drag", (pointer: Phaser.Input.Pointer) => listener.onDrag(this, pointer))
+      .on("dragend", (pointer: Phaser.Input.Pointer) => listener.onDragEnd(this, pointer))
+  }
+
+  pourTo(targetTube: Tube, duration: number = 500) {
     if (this.colors.length > 0 && targetTube) {
       const color = this.getTopColor()
       if (color !== null) {
-        this.simulatePour(targetTube, color)
+        this.simulatePour(targetTube, color, duration)
       }
     }
   }
@@ -0,0 +1,438 @@
+import * as Phaser from "phaser"
+import { drawSegmentGlyph } from "../objects/SegmentGlyph"
+import { Tube } from "../objects/Tube"
+import { ColorSettingsStore } from "../logic/ColorSettingsStore"
+import { findIndistinguishableColors, getContrastingInk, getPalette } from "../logic/ColorVision"
+import { CUSTOM_BOARD_LIMITS } from "../logic/CustomBoardDialog"
+import { ratePuzzle } from "../logic/DifficultyRating"
+import { hasValidColorCounts } from "../logic/PuzzleEngine"
+import { MAX_TUBES, parsePuzzle, serializePuzzle } from "../logic/PuzzleFormat"
+import { SolverClient } from "../logic/SolverClient"
+import { APP_WIDTH, COLORS, HEX_COLORS, PADDING_BOX } from "@/lib/constants"
+import { buildShareUrl } from "@/lib/share"
+import { ColorSettings, SolverResult } from "@/lib/types"
+
+// Allowed range for the number of tubes; capacity uses the custom board limits
+const TUBE_COUNT_LIMITS = { min: 2, max: MAX_TUBES }
+// Palette swatches per row
+const SWATCHES_PER_ROW = 13
+// Selected tool that removes the top segment instead of painting
+const ERASER = -1
+
+/**
+ * Lets a designer build a board by hand: add and remove tubes, set their
+ * capacity and paint colors into them, with a live solvability check
+ *
+ * Boards can be copied in the text puzzle format or as a share link, or
+ * play-tested straight away in MainScene.
+ */
+export default class LevelEditorScene extends Phaser.Scene {
+  // The board being edited; kept while play-testing so the designer can come back to it
+  private capacity = 4
+  private tubeColors: number[][] = [[], [], [], [], []]
+  private selectedColor = 0
+  private tubes: Tube[] = []
+  private colorSettings: ColorSettings = { palette: "standard", patterns: false }
+  private swatches: {
+    color: number
+    swatch: Phaser.GameObjects.Rectangle
+    countText: Phaser.GameObjects.Text
+  }[] = []
+  private sizeText?: Phaser.GameObjects.Text
+  private statusText?: Phaser.GameObjects.Text
+  private playTestButton?: Phaser.GameObjects.Text
+  private solverClient: SolverClient | null = null
+  // Solver request for the current board, if one is running
+  private pendingCheck: number | null = null
+
+  constructor() {
+    super("LevelEditorScene")
+  }
+
+  init(data: { puzzle?: string }) {
+    if (!data.puzzle) return
+
+    try {
+      const puzzle = parsePuzzle(data.puzzle)
+      this.capacity = puzzle.capacity
+      this.tubeColors = puzzle.tubes
+    } catch (error) {
+      console.error("Ignoring invalid puzzle", error)
+    }
+  }
+
+  create() {
+    // Paint with the palette the designer plays with
+    this.colorSettings = new ColorSettingsStore().load()
+
+    // Check boards in the background, stopping the solver when the scene goes away
+    const solverClient = new SolverClient()
+    this.solverClient = solverClient
+    this.pendingCheck = null
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      solverClient.destroy()
+      if (this.solverClient === solverClient) {
+        this.solverClient = null
+      }
+    })
+
+    this.createBackground()
+
+    this.add
+      .text(APP_WIDTH / 2, 40, "LEVEL EDITOR", {
+        fontSize: "32px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+        stroke: HEX_COLORS.DARK_VIOLET,
+        strokeThickness: 6,
+      })
+      .setOrigin(0.5)
+
+    this.createSizeControls()
+    this.createPalette()
+
+    this.statusText = this.add
+      .text(APP_WIDTH / 2, 500, "", {
+        fontSize: "16px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.DARK_GREEN,
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+
+    this.createActionButtons()
+    this.rebuildTubes()
+  }
+
+  private createBackground() {
+    const background = this.add.graphics()
+    background.fillGradientStyle(
+      COLORS.DARK_TURQUOISE,
+      COLORS.DARK_TURQUOISE,
+      COLORS.TEAL,
+      COLORS.TEAL,
+      1
+    )
+    background.fillRect(0, 0, APP_WIDTH, this.scale.height)
+  }
+
+  /**
+   * Add the buttons for changing the number of tubes and their capacity
+   */
+  private createSizeControls() {
+    const y = 95
+
+    this.createButton(150, y, "− TUBE", () => this.setTubeCount(this.tubeColors.length - 1))
+    this.createButton(260, y, "+ TUBE", () => this.setTubeCount(this.tubeColors.length + 1))
+    this.createButton(540, y, "− CAPACITY", () => this.setCapacity(this.capacity - 1))
+    this.createButton(680, y, "+ CAPACITY", () => this.setCapacity(this.capacity + 1))
+
+    this.sizeText = this.add
+      .text(APP_WIDTH / 2, y, "", {
+        fontSize: "16px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+  }
+
+  /**
+   * Add a swatch for every palette color, plus an eraser
+   */
+  private createPalette() {
+    const spacing = 44
+    const startX = APP_WIDTH / 2 - ((SWATCHES_PER_ROW - 1) * spacing) / 2
+    const palette = getPalette(this.colorSettings.palette)
+    const colors = [...palette.keys(), ERASER]
+    const glyphs = this.add.graphics().setDepth(1)
+
+    this.swatches = colors.map((color, index) => {
+      const x = startX + (index % SWATCHES_PER_ROW) * spacing
+      const y = 400 + Math.floor(index / SWATCHES_PER_ROW) * spacing
+
+      const swatch = this.add
+        .rectangle(x, y, 34, 34, color === ERASER ? COLORS.WHITE : palette[color], color === ERASER ? 0.2 : 1)
+        .setInteractive({ useHandCursor: true })
+        .on("pointerdown", () => {
+          this.selectedColor = color
+          this.updatePalette()
+        })
+
+      // With patterns on, the glyph takes the middle and the count moves to the corner
+      const showGlyph = this.colorSettings.patterns && color !== ERASER
+      if (showGlyph) {
+        drawSegmentGlyph(glyphs, color, x, y, 8, getContrastingInk(palette[color]))
+      }
+
+      // Shows how many segments of the color are on the board
+      const countText = this.add
+        .text(showGlyph ? x + 11 : x, showGlyph ? y + 11 : y, color === ERASER ? "✕" : "", {
+          fontSize: showGlyph ? "11px" : "14px",
+          fontStyle: "bold",
+          color: HEX_COLORS.WHITE,
+          stroke: "#000000",
+          strokeThickness: 3,
+        })
+        .setOrigin(0.5)
+        .setDepth(2)
+
+      return { color, swatch, countText }
+    })
+  }
+
+  private createActionButtons() {
+    const y = this.scale.height - 45
+    const labels = ["CLEAR", "COPY TEXT", "COPY LINK", "PLAY TEST", "BACK"]
+    const spacing = (APP_WIDTH - 80) / labels.length
+    const getX = (index: number) => 40 + spacing * (index + 0.5)
+
+    this.createButton(getX(0), y, "CLEAR", () => {
+      this.tubeColors = this.tubeColors.map(() => [])
+      this.rebuildTubes()
+    })
+
+    const copyTextButton = this.createButton(getX(1), y, "COPY TEXT", () => {
+      this.copyToClipboard(copyTextButton, "COPY TEXT", this.getBoardText())
+    })
+
+    const copyLinkButton = this.createButton(getX(2), y, "COPY LINK", () => {
+      this.copyToClipboard(
+        copyLinkButton,
+        "COPY LINK",
+        buildShareUrl(this.getBoardText(), window.location.href)
+      )
+    })
+
+    this.playTestButton = this.createButton(getX(3), y, "PLAY TEST", () => {
+      this.scene.start("MainScene", { puzzle: this.getBoardText(), fromEditor: true })
+    })
+
+    this.createButton(getX(4), y, "BACK", () => {
+      this.scene.start("MainScene", { mode: "classic" })
+    })
+  }
+
+  private createButton(x: number, y: number, label: string, onClick: () => void) {
+    const button = this.add
+      .text(x, y, label, {
+        fontSize: "16px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: PADDING_BOX,
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", onClick)
+      .on("pointerover", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        button.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+
+    return button
+  }
+
+  private setTubeCount(tubeCount: number) {
+    if (tubeCount < TUBE_COUNT_LIMITS.min || tubeCount > TUBE_COUNT_LIMITS.max) return
+
+    this.tubeColors =
+      tubeCount > this.tubeColors.length
+        ? [...this.tubeColors, []]
+        : this.tubeColors.slice(0, tubeCount)
+    this.rebuildTubes()
+  }
+
+  private setCapacity(capacity: number) {
+    const { min, max } = CUSTOM_BOARD_LIMITS.capacity
+    if (capacity < min || capacity > max) return
+
+    // Drop the top segments that no longer fit
+    this.capacity = capacity
+    this.tubeColors = this.tubeColors.map((colors) => colors.slice(0, capacity))
+    this.rebuildTubes()
+  }
+
+  /**
+   * Replace the tubes with a new set matching the board's size
+   */
+  private rebuildTubes() {
+    this.tubes.forEach((tube) => tube.destroy())
+
+    const tubeCount = this.tubeColors.length
+    const spacing = Math.min(70, (APP_WIDTH - 80) / Math.max(tubeCount - 1, 1))
+    const startX = (APP_WIDTH - (tubeCount - 1) * spacing) / 2
+
+    this.tubes = this.tubeColors.map((colors, index) => {
+      const tube = new Tube(this, startX + index * spacing, 240, this.capacity, 1, spacing)
+      tube.setColorSettings(this.colorSettings)
+      tube.colors = [...colors]
+      tube.draw()
+      tube.addClickListener(() => this.paintTube(index))
+      return tube
+    })
+
+    this.onBoardChange()
+  }
+
+  /**
+   * Add the selected color on top of a tube, or remove its top segment with the eraser
+   */
+  private paintTube(index: number) {
+    const colors = this.tubeColors[index]
+
+    if (this.selectedColor === ERASER) {
+      if (colors.length === 0) return
+      colors.pop()
+    } else {
+      if (colors.length >= this.capacity) return
+      colors.push(this.selectedColor)
+    }
+
+    this.tubes[index].colors = [...colors]
+    this.tubes[index].draw()
+    this.onBoardChange()
+  }
+
+  /**
+   * Refresh the counts and status, and check the new board with the solver
+   */
+  private onBoardChange() {
+    this.sizeText?.setText(`${this.tubeColors.length} TUBES · CAPACITY ${this.capacity}`)
+    this.updatePalette()
+
+    // Any running check is for an older board
+    if (this.pendingCheck !== null) {
+      this.solverClient?.cancel(this.pendingCheck)
+      this.pendingCheck = null
+    }
+
+    const problem = this.findBoardProblem()
+    this.setPlayTestEnabled(problem === null)
+    if (problem) {
+      this.statusText?.setText(problem)
+      return
+    }
+
+    if (!this.solverClient) return
+
+    const tubeColors = this.tubeColors.map((colors) => [...colors])
+    const { id, result } = this.solverClient.solve(tubeColors, this.capacity)
+    this.pendingCheck = id
+    this.statusText?.setText("CHECKING…")
+
+    result.then((analysis) => {
+      if (!analysis || this.pendingCheck !== id) return
+
+      this.pendingCheck = null
+      this.showSolverResult(tubeColors, analysis)
+    })
+  }
+
+  /**
+   * Describe why the board can't be played, or null if it can
+   */
+  private findBoardProblem(): string | null {
+    const filledTubes = this.tubeColors.filter((colors) => colors.length > 0)
+
+    if (filledTubes.length === 0) {
+      return "PICK A COLOR AND CLICK THE TUBES TO PAINT THEM"
+    }
+    if (!hasValidColorCounts(this.tubeColors, this.capacity)) {
+      return `EACH COLOR NEEDS EXACTLY ${this.capacity} SEGMENTS`
+    }
+    if (filledTubes.every((colors) => colors.every((color) => color === colors[0]))) {
+      return "THE BOARD IS ALREADY SOLVED"
+    }
+    if (this.findLookalikeColors().size > 0) {
+      return "THE COLORS MARKED IN RED LOOK TOO ALIKE"
+    }
+    return null
+  }
+
+  private showSolverResult(tubeColors: number[][], analysis: SolverResult) {
+    if (analysis.solvability === "unsolvable") {
+      this.setPlayTestEnabled(false)
+      this.statusText?.setText("NOT SOLVABLE")
+      return
+    }
+    if (!analysis.moves) {
+      this.statusText?.setText("TOO LARGE TO CHECK — PLAY TEST TO TRY IT")
+      return
+    }
+
+    const rating = ratePuzzle(tubeColors, analysis.moves, analysis.stats)
+    this.statusText?.setText(
+      `SOLVABLE · OPTIMAL SOLUTION: ${analysis.moves.length} MOVES · DIFFICULTY: ${rating.score}/10`
+    )
+  }
+
+  /**
+   * Colors on the board that can't be told apart from another one on it
+   */
+  private findLookalikeColors(): Set<number> {
+    const pairs = findIndistinguishableColors(this.tubeColors.flat(), this.colorSettings.palette)
+    return new Set(pairs.flat())
+  }
+
+  /**
+   * Show the segment count on each swatch and highlight the selected one
+   * and any that look too alike
+   */
+  private updatePalette() {
+    const counts = new Map<number, number>()
+    this.tubeColors.flat().forEach((color) => counts.set(color, (counts.get(color) ?? 0) + 1))
+    const lookalikes = this.findLookalikeColors()
+
+    this.swatches.forEach(({ color, swatch, countText }) => {
+      const isSelected = color === this.selectedColor
+      if (isSelected) {
+        swatch.setStrokeStyle(4, COLORS.WHITE)
+      } else if (lookalikes.has(color)) {
+        swatch.setStrokeStyle(3, COLORS.RED)
+      } else {
+        swatch.setStrokeStyle(1, 0x000000)
+      }
+
+      if (color === ERASER) return
+
+      const count = counts.get(color) ?? 0
+      countText.setText(count > 0 ? String(count) : "")
+      // Flag colors that can't fill exactly one tube
+      countText.setColor(count === 0 || count === this.capacity ? HEX_COLORS.WHITE : HEX_COLORS.RED)
+    })
+  }
+
+  private setPlayTestEnabled(enabled: boolean) {
+    if (!this.playTestButton) return
+
+    this.playTestButton.setAlpha(enabled ? 1 : 0.4)
+    if (this.playTestButton.input) {
+      this.playTestButton.input.enabled = enabled
+    }
+  }
+
+  private getBoardText(): string {
+    return serializePuzzle({
+      capacity: this.capacity,
+      tubes: this.tubeColors,
+      seed: null,
+      moves: [],
+    })
+  }
+
+  private async copyToClipboard(button: Phaser.GameObjects.Text, label: string, text: string) {
+    try {
+      await navigator.clipboard.writeText(text)
+      button.setText("COPIED!")
+    } catch (error) {
+      console.warn("Could not copy to clipboard", error)
+      button.setText("COPY FAILED")
+    }
+
+    this.time.delayedCall(1500, () => {
+      button.setText(label)
+    })
+  }
+}
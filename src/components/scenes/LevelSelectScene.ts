@@ -0,0 +1,176 @@
+import * as Phaser from "phaser"
+import { APP_WIDTH, COLORS, HEX_COLORS, PADDING_BOX } from "@/lib/constants"
+import { LevelPack } from "@/lib/types"
+import { LEVEL_PACKS } from "../logic/LevelPacks"
+import { LevelProgressStore } from "../logic/LevelProgressStore"
+
+const LEVEL_BUTTON_SIZE = 60
+const LEVEL_BUTTON_SPACING = 80
+const LEVELS_PER_ROW = 8
+
+/**
+ * Lists the level packs and lets the player pick an unlocked level
+ */
+export default class LevelSelectScene extends Phaser.Scene {
+  private levelProgress = new LevelProgressStore()
+  private statusText?: Phaser.GameObjects.Text
+
+  constructor() {
+    super("LevelSelectScene")
+  }
+
+  create() {
+    this.createBackground()
+
+    this.add
+      .text(APP_WIDTH / 2, 60, "LEVELS", {
+        fontSize: "36px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+        stroke: HEX_COLORS.DARK_VIOLET,
+        strokeThickness: 6,
+      })
+      .setOrigin(0.5)
+
+    let y = 130
+    LEVEL_PACKS.forEach((pack) => {
+      y = this.createPackSection(pack, y)
+    })
+
+    // Shows the title and best result of the level under the pointer
+    this.statusText = this.add
+      .text(APP_WIDTH / 2, this.scale.height - 90, "", {
+        fontSize: "18px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.DARK_GREEN,
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+
+    this.createBackButton()
+  }
+
+  private createBackground() {
+    const background = this.add.graphics()
+    background.fillGradientStyle(
+      COLORS.DARK_TURQUOISE,
+      COLORS.DARK_TURQUOISE,
+      COLORS.TEAL,
+      COLORS.TEAL,
+      1
+    )
+    background.fillRect(0, 0, APP_WIDTH, this.scale.height)
+  }
+
+  /**
+   * Add a pack title and a grid of its levels starting at y
+   * Returns the y position below the section
+   */
+  private createPackSection(pack: LevelPack, y: number): number {
+    const completedCount = pack.levels.filter((level) =>
+      this.levelProgress.isCompleted({ packId: pack.id, levelId: level.id })
+    ).length
+
+    this.add
+      .text(APP_WIDTH / 2, y, `${pack.title.toUpperCase()} (${completedCount}/${pack.levels.length})`, {
+        fontSize: "22px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+
+    const rowLength = Math.min(pack.levels.length, LEVELS_PER_ROW)
+    const startX = APP_WIDTH / 2 - ((rowLength - 1) * LEVEL_BUTTON_SPACING) / 2
+
+    pack.levels.forEach((_, index) => {
+      const row = Math.floor(index / LEVELS_PER_ROW)
+      const column = index % LEVELS_PER_ROW
+      this.createLevelButton(
+        pack,
+        index,
+        startX + column * LEVEL_BUTTON_SPACING,
+        y + 60 + row * (LEVEL_BUTTON_SPACING + 10)
+      )
+    })
+
+    const rowCount = Math.ceil(pack.levels.length / LEVELS_PER_ROW)
+    return y + 60 + rowCount * (LEVEL_BUTTON_SPACING + 10) + 20
+  }
+
+  /**
+   * Add a button for one level, showing whether it is locked, playable or completed
+   */
+  private createLevelButton(pack: LevelPack, index: number, x: number, y: number) {
+    const level = pack.levels[index]
+    const ref = { packId: pack.id, levelId: level.id }
+    const result = this.levelProgress.getResult(ref)
+    const unlocked = this.levelProgress.isUnlocked(pack, index)
+
+    const fillColor = result ? COLORS.DARK_GREEN : COLORS.INDIGO
+    const button = this.add
+      .rectangle(x, y, LEVEL_BUTTON_SIZE, LEVEL_BUTTON_SIZE, fillColor, unlocked ? 0.9 : 0.3)
+      .setStrokeStyle(2, COLORS.WHITE, unlocked ? 1 : 0.3)
+
+    this.add
+      .text(x, y - 6, String(index + 1), {
+        fontSize: "24px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setAlpha(unlocked ? 1 : 0.4)
+
+    this.add
+      .text(x, y + 18, result ? "DONE" : unlocked ? `PAR ${level.par}` : "LOCKED", {
+        fontSize: "11px",
+        color: HEX_COLORS.KHAKI,
+      })
+      .setOrigin(0.5)
+      .setAlpha(unlocked ? 1 : 0.4)
+
+    const details = result
+      ? ` · BEST: ${result.bestScore} IN ${result.bestMoves} MOVES`
+      : unlocked
+        ? ` · PAR: ${level.par}`
+        : ` · LOCKED UNTIL LEVEL ${index} IS SOLVED`
+
+    button
+      .setInteractive({ useHandCursor: unlocked })
+      .on("pointerover", () => {
+        button.setStrokeStyle(3, COLORS.KHAKI, unlocked ? 1 : 0.3)
+        this.statusText?.setText(`${index + 1}. ${level.title.toUpperCase()}${details}`)
+      })
+      .on("pointerout", () => {
+        button.setStrokeStyle(2, COLORS.WHITE, unlocked ? 1 : 0.3)
+        this.statusText?.setText("")
+      })
+
+    if (unlocked) {
+      button.on("pointerdown", () => {
+        this.scene.start("MainScene", { mode: "levels", level: ref })
+      })
+    }
+  }
+
+  private createBackButton() {
+    const backButton = this.add
+      .text(APP_WIDTH / 2, this.scale.height - 40, "BACK TO CLASSIC", {
+        fontSize: "18px",
+        backgroundColor: HEX_COLORS.TEAL,
+        padding: PADDING_BOX,
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        this.scene.start("MainScene", { mode: "classic" })
+      })
+      .on("pointerover", () => {
+        backButton.setStyle({ backgroundColor: HEX_COLORS.DARK_TURQUOISE })
+      })
+      .on("pointerout", () => {
+        backButton.setStyle({ backgroundColor: HEX_COLORS.TEAL })
+      })
+  }
+}
@@ -1,30 +1,182 @@
 import * as Phaser from "phaser"
 import { Tube } from "../objects/Tube"
-import { GameLogic } from "../logic/GameLogic"
-import { APP_WIDTH, APP_HEIGHT, DIFFICULTY, PADDING_BOX, COLORS, HEX_COLORS } from "@/lib/constants"
-import { DebugManager } from "../logic/DebugManager"
+import { GameLogic, SetupOptions } from "../logic/GameLogic"
+import { APP_WIDTH, DIFFICULTY, PADDING_BOX, COLORS, HEX_COLORS } from "@/lib/constants"
+import { DebugInfo, DebugManager } from "../logic/DebugManager"
+import { ReplayManager } from "../logic/ReplayManager"
+import { ColorSettingsDialog } from "../logic/ColorSettingsDialog"
+import { ColorSettingsStore } from "../logic/ColorSettingsStore"
+import { getLookalikeColorWarning } from "../logic/ColorVision"
+import { CustomBoardDialog } from "../logic/CustomBoardDialog"
+import { describePour, describeRejectedPour } from "../logic/BoardDescription"
+import { DailyChallenge, DAILY_DIFFICULTY } from "../logic/DailyChallenge"
+import { DragControls } from "../logic/DragControls"
+import { KeyboardControls } from "../logic/KeyboardControls"
+import { findLevel, getNextLevel, LevelEntry } from "../logic/LevelPacks"
+import { LevelProgressStore } from "../logic/LevelProgressStore"
+import { parsePuzzle } from "../logic/PuzzleFormat"
+import { SavedGame, SavedGameStore } from "../logic/SavedGameStore"
+import { computeTubeLayout } from "../logic/TubeLayout"
+import {
+  BoardSettings,
+  BoardSnapshot,
+  ColorSettings,
+  DifficultyLevel,
+  GameMode,
+  HistoryState,
+  LaunchOptions,
+  LevelRef,
+  Move,
+  PuzzleDefinition,
+} from "@/lib/types"
+import { buildShareUrl } from "@/lib/share"
+
+const SOLVER_INDICATOR_DELAY = 200 // Milliseconds a check runs before showing the indicator
+
+/**
+ * Events emitted on the game's event bus so the page can mirror the board
+ * for screen readers: the BoardSnapshot (or null when no board is showing)
+ * and messages to announce
+ */
+export const BOARD_SNAPSHOT_EVENT = "boardSnapshot"
+export const ANNOUNCEMENT_EVENT = "announcement"
 
 export default class MainScene extends Phaser.Scene {
   private tubes: Tube[] = []
   private gameLogic!: GameLogic
   private resetButton?: Phaser.GameObjects.Text
   private undoButton?: Phaser.GameObjects.Text
+  private redoButton?: Phaser.GameObjects.Text
+  private hintButton?: Phaser.GameObjects.Text
   private moveCounter?: Phaser.GameObjects.Text
   private debugButton?: Phaser.GameObjects.Text
+  private editorButton?: Phaser.GameObjects.Text
+  private colorsButton?: Phaser.GameObjects.Text
   private difficultyChooser?: Phaser.GameObjects.Text
   private controlPanel?: Phaser.GameObjects.Rectangle
   private gameTitle?: Phaser.GameObjects.Text
   private scoreDisplay?: Phaser.GameObjects.Text
+  private modeButton?: Phaser.GameObjects.Text
+  private shareButton?: Phaser.GameObjects.Text
+  private streakDisplay?: Phaser.GameObjects.Text
+  private levelDisplay?: Phaser.GameObjects.Text
+  private colorWarning?: Phaser.GameObjects.Text
+  private solverIndicator?: Phaser.GameObjects.Text
+  private solverIndicatorTimer: Phaser.Time.TimerEvent | null = null
+  private stuckBanner: Phaser.GameObjects.Container | null = null
+  private dailyChallenge = new DailyChallenge()
+  private levelProgress = new LevelProgressStore()
+  // Level being played in levels mode
+  private level: LevelEntry | null = null
+  private launchOptions: LaunchOptions = {}
+  // Board being play-tested from the level editor
+  private editorPuzzle: string | null = null
+  private savedGameStore = new SavedGameStore()
+  private savedGame: SavedGame | null = null
+  // Puzzle to open instead of generating one (shared link or saved game),
+  // which also decides the board size
+  private initialPuzzle: PuzzleDefinition | null = null
   public debugManager = new DebugManager(this)
+  private replayManager = new ReplayManager(this)
+  private customBoardDialog = new CustomBoardDialog(this)
+  private colorSettingsDialog = new ColorSettingsDialog(this)
+  private colorSettingsStore = new ColorSettingsStore()
+  private colorSettings: ColorSettings = this.colorSettingsStore.load()
+  private keyboardControls = new KeyboardControls(this, {
+    getTubes: () => this.tubes,
+    selectTube: (tube) => this.gameLogic.handleTubeClick(tube),
+    undo: () => this.gameLogic.undo(),
+    redo: () => this.gameLogic.redo(),
+    reset: () => this.resetGame(),
+    isBlocked: () => this.isInputBlocked(),
+  })
+  private dragControls = new DragControls(this, {
+    getTubes: () => this.tubes,
+    getSelectedTubeIndex: () => this.gameLogic.getSelectedTubeIndex(),
+    canPour: (fromIndex, toIndex) => this.gameLogic.canPour(fromIndex, toIndex),
+    dropOn: (tube) => this.gameLogic.handleTubeClick(tube),
+    cancel: () => this.gameLogic.cancelSelection(),
+    isBlocked: () => this.isInputBlocked(),
+  })
+  private customBoard: BoardSettings = { colorCount: 5, capacity: 4, emptyTubes: 2 }
+  private gameOverElements: Phaser.GameObjects.GameObject[] = []
   
-  public difficulty: keyof typeof DIFFICULTY = "MEDIUM"
+  public mode: GameMode = "classic"
+  public difficulty: DifficultyLevel = "MEDIUM"
   public score: number = 0
-  public isSolvable: boolean = true
 
   constructor() {
     super("MainScene")
   }
 
+  init(data: LaunchOptions & { mode?: GameMode; level?: LevelRef; fromEditor?: boolean }) {
+    this.launchOptions = data.mode ? {} : data
+    this.editorPuzzle = data.fromEditor ? data.puzzle ?? null : null
+    this.initialPuzzle = null
+    this.savedGame = null
+    this.level = null
+    this.dailyChallenge = new DailyChallenge()
+
+    // Resume the saved game on first load, unless a specific puzzle was requested
+    const isFreshLaunch =
+      !data.mode &&
+      !this.launchOptions.puzzle &&
+      !this.launchOptions.difficulty &&
+      this.launchOptions.seed === undefined
+    if (isFreshLaunch) {
+      this.savedGame = this.savedGameStore.load()
+    }
+
+    this.mode = this.savedGame?.mode ?? data.mode ?? "classic"
+
+    if (this.savedGame) {
+      this.difficulty = this.savedGame.difficulty
+      this.customBoard = this.savedGame.customBoard ?? this.customBoard
+    } else if (this.launchOptions.difficulty) {
+      this.difficulty = this.launchOptions.difficulty
+    }
+
+    // Level packs change between releases, so a saved level may be gone
+    if (this.mode === "levels") {
+      this.level = findLevel(this.savedGame?.level ?? data.level ?? null)
+
+      if (!this.level) {
+        console.warn("Level not found, starting a classic game")
+        this.mode = "classic"
+        if (this.savedGame) {
+          this.savedGameStore.clear()
+          this.savedGame = null
+        }
+      }
+    }
+
+    const puzzleText =
+      this.savedGame?.puzzle ?? this.launchOptions.puzzle ?? this.level?.level.board
+    if (puzzleText) {
+      try {
+        this.initialPuzzle = parsePuzzle(puzzleText)
+      } catch (error) {
+        console.error("Ignoring invalid puzzle", error)
+        this.savedGame = null
+      }
+    }
+
+    // A daily game from a previous day can't be resumed
+    if (
+      this.savedGame?.mode === "daily" &&
+      this.initialPuzzle?.seed !== this.dailyChallenge.getSeed()
+    ) {
+      this.savedGameStore.clear()
+      this.savedGame = null
+      this.initialPuzzle = null
+    }
+
+    // Every player gets the same board size for the daily puzzle
+    if (this.mode === "daily") {
+      this.difficulty = DAILY_DIFFICULTY
+    }
+  }
+
   create() {
     // Add background
     this.createBackground()
@@ -32,8 +184,16 @@ export default class MainScene extends Phaser.Scene {
     // Add game title
     this.createGameTitle()
 
-    // Create game logic
-    this.gameLogic = new GameLogic(this)
+    // Create game logic, stopping its background solver when the scene goes away
+    const gameLogic = new GameLogic()
+    const destroyGameLogic = () => {
+      gameLogic.destroy()
+      this.events.off(Phaser.Scenes.Events.SHUTDOWN, destroyGameLogic)
+      this.events.off(Phaser.Scenes.Events.DESTROY, destroyGameLogic)
+    }
+    this.events.on(Phaser.Scenes.Events.SHUTDOWN, destroyGameLogic)
+    this.events.on(Phaser.Scenes.Events.DESTROY, destroyGameLogic)
+    this.gameLogic = gameLogic
 
     // Create control panel
     this.createControlPanel()
@@ -41,21 +201,99 @@ export default class MainScene extends Phaser.Scene {
     // Create tubes
     this.createTubes()
 
-    // Setup game logic with tubes
-    this.gameLogic.setup(this.tubes)
+    // Setup game logic with the shared or saved puzzle, if any, and only
+    // generate a puzzle when there isn't one or it can't be loaded
+    const loaded =
+      this.initialPuzzle !== null &&
+      this.gameLogic.setupPuzzle(this.tubes, this.initialPuzzle)
+    if (!loaded) {
+      this.gameLogic.setup(this.tubes, {
+        seed: this.launchOptions.seed,
+        ...this.getSetupOptions(),
+      })
+    }
+
+    if (this.initialPuzzle) {
+      if (loaded && this.savedGame) {
+        this.gameLogic.restoreScoreMetrics(this.savedGame)
+      } else if (!loaded && this.savedGame) {
+        console.warn("Saved game could not be restored, starting a new game")
+        this.savedGameStore.clear()
+      }
+    }
 
     // Add control buttons
     this.createControlButtons()
 
+    // Let the board be played from the keyboard as well
+    this.keyboardControls.enable()
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.keyboardControls.disable())
+    // Tubes can also be dragged onto each other to pour
+    this.dragControls.enable()
+
     // Add debug button
     this.createDebugButton()
 
+    // Add palette and pattern settings
+    this.createColorsButton()
+    this.createColorWarning()
+
+    // Add difficulty chooser; daily puzzles, levels and play-tests have a fixed board
+    if (this.mode === "classic" && !this.editorPuzzle) {
+      this.createDifficultyChooser()
+    }
+
+    // Add game mode toggle
+    this.createModeButton()
+
+    // Add share button
+    this.createShareButton()
+
+    // Add level editor button; play-tests go back through the mode button
+    if (!this.editorPuzzle) {
+      this.createEditorButton()
+    }
+
     // Add score display
     this.createScoreDisplay()
 
-    // Listen for move history changes to update the counter
-    this.gameLogic.on("historyChange", (moveCount: unknown) => {
+    // Add daily streak display
+    this.createStreakDisplay()
+
+    // Add level title and par
+    this.createLevelDisplay()
+
+    // Add solver status indicator
+    this.createSolverIndicator()
+
+    // Listen for move history changes to update the counter and save progress
+    this.gameLogic.on("historyChange", (moveCount: unknown, state: unknown) => {
       this.updateMoveCounter(Number(moveCount))
+      this.updateRedoButton((state as HistoryState).canRedo)
+      this.saveGame()
+    }, this)
+
+    // Show when the background solver is checking the board
+    this.gameLogic.on("solverPending", (pending: unknown) => {
+      this.updateSolverIndicator(Boolean(pending))
+    }, this)
+
+    // Offer a way back when the board can no longer be solved
+    this.gameLogic.on("gameStuck", (undoCount: unknown) => {
+      this.showStuckBanner(undoCount === null ? null : Number(undoCount))
+    }, this)
+    this.gameLogic.on("gameUnstuck", () => {
+      this.hideStuckBanner()
+    }, this)
+
+    // Hints affect the score, so save them too
+    this.gameLogic.on("hintShown", () => {
+      this.saveGame()
+    }, this)
+
+    // Keep the debug panel in step with the game
+    this.gameLogic.on("stateChange", (info: unknown) => {
+      this.debugManager.updateDebugInfo(info as DebugInfo)
     }, this)
 
     // Listen for score updates
@@ -69,7 +307,287 @@ export default class MainScene extends Phaser.Scene {
       if (finalScore !== undefined) {
         this.updateScore(Number(finalScore))
       }
+
+      // A finished game shouldn't be resumed
+      this.savedGameStore.clear()
+
+      if (this.mode === "daily") {
+        this.dailyChallenge.markCompleted()
+        this.updateStreakDisplay()
+      }
+
+      // Completing a level unlocks the next one
+      if (this.level) {
+        this.levelProgress.recordCompletion(
+          this.getLevelRef(this.level),
+          Number(finalScore),
+          this.gameLogic.getMoveCount()
+        )
+        this.updateLevelDisplay()
+      }
+
+      this.gameOver(true)
+    }, this)
+
+    // Mirror the board and describe what happens for screen readers
+    this.createAccessibilityBridge()
+  }
+
+  /**
+   * Keep the page's accessible copy of the board up to date and announce
+   * selections, pours and the end of the game
+   */
+  private createAccessibilityBridge() {
+    const clearSnapshot = () => {
+      this.game.events.emit(BOARD_SNAPSHOT_EVENT, null)
+    }
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, clearSnapshot)
+
+    this.gameLogic.on("historyChange", () => this.publishBoard(), this)
+    this.gameLogic.on("selectionChange", (index: unknown) => {
+      this.publishBoard()
+      if (index !== null) {
+        this.announce(`Tube ${Number(index) + 1} selected. Choose a tube to pour into.`)
+      }
+    }, this)
+    this.gameLogic.on("selectionRejected", (index: unknown) => {
+      this.announce(`Tube ${Number(index) + 1} is empty.`)
+    }, this)
+    this.gameLogic.on("pourCompleted", () => {
+      const lastMove = this.gameLogic.getMoveHistory().at(-1)
+      if (lastMove) {
+        this.announce(`${describePour(lastMove)}.`)
+      }
+    }, this)
+    this.gameLogic.on("pourRejected", (pour: unknown) => {
+      const { fromIndex, toIndex } = pour as { fromIndex: number; toIndex: number }
+      const snapshot = this.getBoardSnapshot()
+      this.announce(
+        `${describeRejectedPour(snapshot.tubes, fromIndex, toIndex, snapshot.capacity)}.`
+      )
+    }, this)
+    this.gameLogic.on("hintShown", (move: unknown) => {
+      const { fromIndex, toIndex } = move as Move
+      this.announce(`Hint: pour tube ${fromIndex + 1} into tube ${toIndex + 1}.`)
     }, this)
+    this.gameLogic.on("gameStuck", (undoCount: unknown) => {
+      this.announce(
+        undoCount === null
+          ? "This board can't be solved from here. Restart to try again."
+          : `This board can't be solved from here. Undo ${undoCount} ${Number(undoCount) === 1 ? "move" : "moves"} to get back on track.`
+      )
+    }, this)
+    this.gameLogic.on("gameSolved", (finalScore: unknown) => {
+      this.announce(
+        `Puzzle solved in ${this.gameLogic.getMoveCount()} moves! Final score ${finalScore}.`
+      )
+    }, this)
+
+    this.publishBoard()
+  }
+
+  /**
+   * The board as currently shown
+   */
+  public getBoardSnapshot(): BoardSnapshot {
+    return {
+      tubes: this.tubes.map((tube) => [...tube.colors]),
+      capacity: this.tubes[0]?.maxHeight ?? 0,
+      selectedIndex: this.gameLogic.getSelectedTubeIndex(),
+      moveCount: this.gameLogic.getMoveCount(),
+      canUndo: this.gameLogic.canUndo(),
+      canRedo: this.gameLogic.canRedo(),
+      gameOver: this.gameOverElements.length > 0,
+    }
+  }
+
+  /**
+   * Select or pour into a tube, as if it had been clicked
+   */
+  public selectTubeAt(index: number) {
+    const tube = this.tubes[index]
+    if (!tube || this.isInputBlocked()) return
+
+    this.gameLogic.handleTubeClick(tube)
+  }
+
+  /**
+   * Take back the last move
+   */
+  public undoMove() {
+    if (this.isInputBlocked()) return
+
+    this.announce(this.gameLogic.undo() ? "Move undone." : "Nothing to undo.")
+  }
+
+  /**
+   * Play the last undone move again
+   */
+  public redoMove() {
+    if (this.isInputBlocked()) return
+
+    this.announce(this.gameLogic.redo() ? "Move redone." : "Nothing to redo.")
+  }
+
+  /**
+   * Show a hint on the board, announced through the hintShown event
+   */
+  public requestHint() {
+    if (this.isInputBlocked()) return
+
+    this.gameLogic.showHint().then((success) => {
+      if (!success) {
+        this.announce("No hint available right now.")
+      }
+    })
+  }
+
+  /**
+   * Restart the puzzle, also leaving the game over screen if it is showing
+   */
+  public restartPuzzle() {
+    if (this.gameOverElements.length > 0) {
+      this.clearGameOver()
+    } else if (this.isInputBlocked()) {
+      return
+    }
+
+    this.resetGame()
+
+    // Classic games deal a new board; the others replay the same one
+    const isReplayed = this.level || this.editorPuzzle || this.mode === "daily"
+    this.announce(isReplayed ? "Puzzle restarted." : "New puzzle started.")
+  }
+
+  private publishBoard() {
+    this.game.events.emit(BOARD_SNAPSHOT_EVENT, this.getBoardSnapshot())
+  }
+
+  private announce(message: string) {
+    this.game.events.emit(ANNOUNCEMENT_EVENT, message)
+  }
+
+  /**
+   * True while a dialog, replay or the game over screen should take the
+   * input, or a new puzzle is still being generated
+   */
+  private isInputBlocked(): boolean {
+    return (
+      this.gameOverElements.length > 0 ||
+      this.gameLogic.isGenerating() ||
+      this.replayManager.isActive() ||
+      this.customBoardDialog.isOpen() ||
+      this.colorSettingsDialog.isOpen()
+    )
+  }
+
+  /**
+   * Options for generating the puzzle in the current game mode
+   */
+  private getSetupOptions(): SetupOptions {
+    const { emptyTubes } = this.getBoardSettings()
+    // Custom boards accept any solvable shuffle
+    const ratingBand =
+      this.difficulty === "CUSTOM" ? undefined : DIFFICULTY[this.difficulty].RATING
+
+    return this.mode === "daily"
+      ? { seed: this.dailyChallenge.getSeed(), emptyTubes, ratingBand }
+      : { emptyTubes, ratingBand }
+  }
+
+  /**
+   * Number of tubes and their capacity for the current puzzle
+   */
+  private getBoardSize() {
+    if (this.initialPuzzle) {
+      return {
+        tubeCount: this.initialPuzzle.tubes.length,
+        tubeHeight: this.initialPuzzle.capacity,
+      }
+    }
+
+    const { colorCount, capacity, emptyTubes } = this.getBoardSettings()
+    return {
+      tubeCount: colorCount + emptyTubes,
+      tubeHeight: capacity,
+    }
+  }
+
+  /**
+   * Colors, capacity and empty tubes for the current difficulty
+   */
+  private getBoardSettings(): BoardSettings {
+    if (this.difficulty === "CUSTOM") {
+      return this.customBoard
+    }
+
+    const difficulty = DIFFICULTY[this.difficulty]
+    return {
+      colorCount: difficulty.COLOR_COUNT,
+      capacity: difficulty.TUBE_HEIGHT,
+      emptyTubes: difficulty.EMPTY_TUBES,
+    }
+  }
+
+  /**
+   * Replace the tubes with a new set sized for the current difficulty
+   * and start a new puzzle on them
+   */
+  private async rebuildBoard() {
+    this.clearGameOver()
+    this.dragControls.cancel()
+    this.tubes.forEach((tube) => tube.destroy())
+    this.initialPuzzle = null
+
+    this.createTubes()
+    this.keyboardControls.refresh()
+    if (!(await this.gameLogic.setup(this.tubes, this.getSetupOptions()))) return
+
+    this.updateColorWarning()
+
+    // Update debug display if in debug mode
+    this.debugManager.updateSolvableState()
+  }
+
+  /**
+   * Restart the puzzle; the daily puzzle, levels and play-tests are replayed rather than rerolled
+   */
+  private async resetGame() {
+    if (this.editorPuzzle) {
+      this.gameLogic.loadState(this.editorPuzzle)
+    } else if (this.level) {
+      this.gameLogic.loadState(this.level.level.board)
+    } else if (!(await this.gameLogic.reset(this.getSetupOptions()))) {
+      return
+    }
+    this.updateColorWarning()
+    this.saveGame()
+  }
+
+  /**
+   * Save the in-progress game so it survives a page reload
+   */
+  private saveGame() {
+    // Play-tests are throwaway, so they don't replace the saved game
+    if (
+      !this.gameLogic ||
+      this.gameLogic.isGenerating() ||
+      this.gameLogic.isSolved() ||
+      this.editorPuzzle
+    ) {
+      return
+    }
+
+    const metrics = this.gameLogic.getScoringMetrics()
+    this.savedGameStore.save({
+      mode: this.mode,
+      difficulty: this.difficulty,
+      customBoard: this.difficulty === "CUSTOM" ? this.customBoard : undefined,
+      level: this.level ? this.getLevelRef(this.level) : undefined,
+      puzzle: this.gameLogic.exportState(),
+      elapsedMs: Date.now() - metrics.startTime,
+      hintsUsed: metrics.hintsUsed,
+    })
   }
 
   private createBackground() {
@@ -82,7 +600,7 @@ export default class MainScene extends Phaser.Scene {
       COLORS.TEAL,
       1
     )
-    background.fillRect(0, 0, APP_WIDTH, APP_HEIGHT)
+    background.fillRect(0, 0, APP_WIDTH, this.scale.height)
   }
 
   private createGameTitle() {
@@ -119,7 +637,7 @@ export default class MainScene extends Phaser.Scene {
     // Create a panel for the controls at the bottom
     this.controlPanel = this.add.rectangle(
       APP_WIDTH / 2,
-      APP_HEIGHT - 80,
+      this.scale.height - 80,
       APP_WIDTH - 100,
       100,
       COLORS.DARK_OLIVE_GREEN,
@@ -132,7 +650,7 @@ export default class MainScene extends Phaser.Scene {
     // Add a subtle animation to the panel
     this.tweens.add({
       targets: this.controlPanel,
-      y: APP_HEIGHT - 75,
+      y: this.scale.height - 75,
       duration: 1500,
       yoyo: true,
       repeat: -1,
@@ -141,26 +659,27 @@ export default class MainScene extends Phaser.Scene {
   }
 
   private createTubes() {
-    const difficulty = DIFFICULTY[this.difficulty]
-    const tubeCount = difficulty.TUBE_COUNT
-    const tubeHeight = difficulty.TUBE_HEIGHT
+    const { tubeCount, tubeHeight } = this.getBoardSize()
 
-    // Calculate positions to center the tubes
-    const totalWidth = (tubeCount - 1) * 70
-    const startX = (APP_WIDTH - totalWidth) / 2
-
-    const tubePositions = Array.from({ length: tubeCount }, (_, i) => ({
-      x: startX + i * 70,
-      y: 300,
-    }))
+    // Fill the space between the status text and the controls, using more
+    // rows of larger tubes when the game is tall
+    const { positions, scale, spacing } = computeTubeLayout(tubeCount, {
+      x: 20,
+      y: 180,
+      width: APP_WIDTH - 40,
+      height: this.scale.height - 360,
+    })
 
-    this.tubes = tubePositions.map((pos) => {
-      const tube = new Tube(this, pos.x, pos.y, tubeHeight)
+    this.tubes = positions.map((pos) => {
+      const tube = new Tube(this, pos.x, pos.y, tubeHeight, scale, spacing)
+      tube.setColorSettings(this.colorSettings)
 
       // Add click handling
       tube.addClickListener((tube) => {
+        if (this.isInputBlocked()) return
         this.gameLogic.handleTubeClick(tube)
       })
+      tube.addDragListener(this.dragControls)
 
       return tube
     })
@@ -169,15 +688,15 @@ export default class MainScene extends Phaser.Scene {
   private createControlButtons() {
     // Calculate positions for buttons to be evenly spaced
     const panelWidth = (this.controlPanel?.width || APP_WIDTH - 100) - 80
-    const buttonCount = 3 // Reset, Undo, Move Counter
+    const buttonCount = 5 // Reset, Undo, Redo, Hint, Move Counter
     const buttonSpacing = panelWidth / buttonCount
     const startX = (APP_WIDTH / 2) - (panelWidth / 2) + buttonSpacing / 2
-    const buttonY = APP_HEIGHT - 75
+    const buttonY = this.scale.height - 75
 
     // Add reset button
     this.resetButton = this.add
       .text(startX, buttonY, "RESET", {
-        fontSize: "24px",
+        fontSize: "20px",
         backgroundColor: HEX_COLORS.MAROON,
         padding: PADDING_BOX,
         color: HEX_COLORS.WHITE,
@@ -188,7 +707,8 @@ export default class MainScene extends Phaser.Scene {
     this.resetButton
       .setInteractive({ useHandCursor: true })
       .on("pointerdown", () => {
-        this.gameLogic.reset()
+        if (this.isInputBlocked()) return
+        this.resetGame()
         this.createButtonPressEffect(this.resetButton!)
       })
       .on("pointerover", () => {
@@ -201,7 +721,7 @@ export default class MainScene extends Phaser.Scene {
     // Add undo button
     this.undoButton = this.add
       .text(startX + buttonSpacing, buttonY, "UNDO", {
-        fontSize: "24px",
+        fontSize: "20px",
         backgroundColor: HEX_COLORS.DARK_GREEN,
         padding: PADDING_BOX,
         color: HEX_COLORS.WHITE,
@@ -212,6 +732,7 @@ export default class MainScene extends Phaser.Scene {
     this.undoButton
       .setInteractive({ useHandCursor: true })
       .on("pointerdown", () => {
+        if (this.isInputBlocked()) return
         const success = this.gameLogic.undo()
         if (success) {
           this.createButtonPressEffect(this.undoButton!)
@@ -224,10 +745,68 @@ export default class MainScene extends Phaser.Scene {
         this.undoButton?.setStyle({ backgroundColor: HEX_COLORS.DARK_GREEN })
       })
 
-    // Add move counter
+    // Add redo button
+    this.redoButton = this.add
+      .text(startX + buttonSpacing * 2, buttonY, "REDO", {
+        fontSize: "20px",
+        backgroundColor: HEX_COLORS.DARK_GREEN,
+        padding: PADDING_BOX,
+        color: HEX_COLORS.WHITE,
+        align: "center",
+      })
+      .setOrigin(0.5)
+
+    this.redoButton
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        if (this.isInputBlocked()) return
+        const success = this.gameLogic.redo()
+        if (success) {
+          this.createButtonPressEffect(this.redoButton!)
+        }
+      })
+      .on("pointerover", () => {
+        this.redoButton?.setStyle({ backgroundColor: HEX_COLORS.GREEN })
+      })
+      .on("pointerout", () => {
+        this.redoButton?.setStyle({ backgroundColor: HEX_COLORS.DARK_GREEN })
+      })
+
+    // Nothing can be redone until a move is undone
+    this.updateRedoButton(this.gameLogic.canRedo())
+
+    // Add hint button
+    this.hintButton = this.add
+      .text(startX + buttonSpacing * 3, buttonY, "HINT", {
+        fontSize: "20px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: PADDING_BOX,
+        color: HEX_COLORS.WHITE,
+        align: "center",
+      })
+      .setOrigin(0.5)
+
+    this.hintButton
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        if (this.isInputBlocked()) return
+        this.gameLogic.showHint().then((success) => {
+          if (success) {
+            this.createButtonPressEffect(this.hintButton!)
+          }
+        })
+      })
+      .on("pointerover", () => {
+        this.hintButton?.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        this.hintButton?.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+
+    // Add move counter, which may start above zero for a restored game
     this.moveCounter = this.add
-      .text(startX + buttonSpacing * 2, buttonY, "MOVES: 0", {
-        fontSize: "24px",
+      .text(startX + buttonSpacing * 4, buttonY, `MOVES: ${this.gameLogic.getMoveCount()}`, {
+        fontSize: "20px",
         backgroundColor: HEX_COLORS.DARK_VIOLET,
         padding: PADDING_BOX,
         color: HEX_COLORS.WHITE,
@@ -247,6 +826,21 @@ export default class MainScene extends Phaser.Scene {
     })
   }
 
+  /**
+   * Dim and disable the redo button when there is nothing to redo
+   */
+  private updateRedoButton(canRedo: boolean) {
+    if (!this.redoButton) return
+
+    this.redoButton.setAlpha(canRedo ? 1 : 0.4)
+    if (this.redoButton.input) {
+      this.redoButton.input.enabled = canRedo
+    }
+    if (!canRedo) {
+      this.redoButton.setStyle({ backgroundColor: HEX_COLORS.DARK_GREEN })
+    }
+  }
+
   private updateMoveCounter(moveCount: number) {
     if (this.moveCounter) {
       this.moveCounter.setText(`MOVES: ${moveCount}`)
@@ -255,7 +849,7 @@ export default class MainScene extends Phaser.Scene {
 
   private createDebugButton() {
     this.debugButton = this.add
-      .text(APP_WIDTH - 100, APP_HEIGHT - 25, `DEBUG: ${this.debugManager.isDebugMode()}`, {
+      .text(APP_WIDTH - 100, this.scale.height - 25, `DEBUG: ${this.debugManager.isDebugMode()}`, {
         fontSize: "14px",
         backgroundColor: HEX_COLORS.OLIVE,
         padding: {
@@ -283,9 +877,188 @@ export default class MainScene extends Phaser.Scene {
       })
   }
 
+  private createColorsButton() {
+    this.colorsButton = this.add
+      .text(APP_WIDTH - 70, 125, "COLORS", {
+        fontSize: "14px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: {
+          left: 10,
+          right: 10,
+          top: 5,
+          bottom: 5,
+        },
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        this.colorSettingsDialog.open(this.colorSettings, (settings) => {
+          this.colorSettings = settings
+          this.colorSettingsStore.save(settings)
+          this.tubes.forEach((tube) => tube.setColorSettings(settings))
+          this.updateColorWarning()
+        })
+      })
+      .on("pointerover", () => {
+        this.colorsButton?.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        this.colorsButton?.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+  }
+
+  /**
+   * Create the warning shown when a loaded board's colors look alike with
+   * the current color settings
+   */
+  private createColorWarning() {
+    this.colorWarning = this.add
+      .text(APP_WIDTH / 2, 192, "", {
+        fontSize: "14px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.MAROON,
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+
+    this.updateColorWarning()
+  }
+
+  private updateColorWarning() {
+    if (!this.colorWarning) return
+
+    const warning = getLookalikeColorWarning(
+      this.gameLogic.getInitialColors(),
+      this.colorSettings
+    )
+    this.colorWarning.setText(warning ?? "")
+  }
+
+  private createModeButton() {
+    const label = this.editorPuzzle ? "BACK TO EDITOR" : `MODE: ${this.mode.toUpperCase()}`
+
+    this.modeButton = this.add
+      .text(APP_WIDTH / 2, this.scale.height - 25, label, {
+        fontSize: "14px",
+        backgroundColor: HEX_COLORS.TEAL,
+        padding: {
+          left: 10,
+          right: 10,
+          top: 5,
+          bottom: 5,
+        },
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        if (this.editorPuzzle) {
+          this.scene.start("LevelEditorScene", { puzzle: this.editorPuzzle })
+          return
+        }
+
+        const nextMode: Record<GameMode, GameMode> = {
+          classic: "daily",
+          daily: "levels",
+          levels: "classic",
+        }
+
+        // Levels are picked on their own screen; other modes restart the
+        // scene so the board is rebuilt for the new mode
+        if (nextMode[this.mode] === "levels") {
+          this.scene.start("LevelSelectScene")
+        } else {
+          this.scene.restart({ mode: nextMode[this.mode] })
+        }
+      })
+      .on("pointerover", () => {
+        this.modeButton?.setStyle({ backgroundColor: HEX_COLORS.DARK_TURQUOISE })
+      })
+      .on("pointerout", () => {
+        this.modeButton?.setStyle({ backgroundColor: HEX_COLORS.TEAL })
+      })
+  }
+
+  private createEditorButton() {
+    this.editorButton = this.add
+      .text(560, this.scale.height - 25, "EDITOR", {
+        fontSize: "14px",
+        backgroundColor: HEX_COLORS.INDIGO,
+        padding: {
+          left: 10,
+          right: 10,
+          top: 5,
+          bottom: 5,
+        },
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        this.scene.start("LevelEditorScene")
+      })
+      .on("pointerover", () => {
+        this.editorButton?.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        this.editorButton?.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+  }
+
+  private createShareButton() {
+    this.shareButton = this.add
+      .text(260, this.scale.height - 25, "SHARE", {
+        fontSize: "14px",
+        backgroundColor: HEX_COLORS.MEDIUM_PURPLE,
+        padding: {
+          left: 10,
+          right: 10,
+          top: 5,
+          bottom: 5,
+        },
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        this.createButtonPressEffect(this.shareButton!)
+        this.copyShareUrl()
+      })
+      .on("pointerover", () => {
+        this.shareButton?.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
+      .on("pointerout", () => {
+        this.shareButton?.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+  }
+
+  /**
+   * Copy a URL that opens the current board to the clipboard
+   */
+  private async copyShareUrl() {
+    const url = buildShareUrl(
+      this.gameLogic.exportState({ includeMoves: false }),
+      window.location.href
+    )
+
+    try {
+      await navigator.clipboard.writeText(url)
+      this.shareButton?.setText("COPIED!")
+    } catch (error) {
+      console.warn("Could not copy share URL", error)
+      this.shareButton?.setText("COPY FAILED")
+    }
+
+    this.time.delayedCall(1500, () => {
+      this.shareButton?.setText("SHARE")
+    })
+  }
+
   private createDifficultyChooser() {
     this.difficultyChooser = this.add
-      .text(120, APP_HEIGHT - 25, this.difficulty, {
+      .text(120, this.scale.height - 25, this.difficulty, {
         fontSize: "16px",
         backgroundColor: HEX_COLORS.INDIGO,
         padding: {
@@ -301,22 +1074,44 @@ export default class MainScene extends Phaser.Scene {
       .on("pointerdown", () => {
         this.cycleDifficulty()
       })
+      .on("pointerover", () => {
+        this.difficultyChooser?.setStyle({ backgroundColor: HEX_COLORS.MEDIUM_PURPLE })
+      })
+      .on("pointerout", () => {
+        this.difficultyChooser?.setStyle({ backgroundColor: HEX_COLORS.INDIGO })
+      })
   }
 
   private cycleDifficulty() {
-    const difficulties: (keyof typeof DIFFICULTY)[] = ["EASY", "MEDIUM", "HARD"]
+    const difficulties: DifficultyLevel[] = ["EASY", "MEDIUM", "HARD", "CUSTOM"]
     const currentIndex = difficulties.indexOf(this.difficulty)
     const nextIndex = (currentIndex + 1) % difficulties.length
-    this.difficulty = difficulties[nextIndex]
-    this.difficultyChooser?.setText(this.difficulty)
-    
-    // Reset the game with the new difficulty
-    if (this.gameLogic) {
-      this.gameLogic.reset()
+    const nextDifficulty = difficulties[nextIndex]
+
+    // Let the player pick the board dimensions before switching to a custom board
+    if (nextDifficulty === "CUSTOM") {
+      this.customBoardDialog.open(
+        this.customBoard,
+        (settings) => {
+          this.customBoard = settings
+          this.setDifficulty("CUSTOM")
+        },
+        // Skip past the custom board if the dialog is cancelled
+        () => this.setDifficulty(difficulties[0])
+      )
+      return
     }
-    
-    // Update debug display if in debug mode
-    this.debugManager.updateSolvableState()
+
+    this.setDifficulty(nextDifficulty)
+  }
+
+  /**
+   * Switch difficulty and rebuild the tubes for a new puzzle
+   */
+  private setDifficulty(difficulty: DifficultyLevel) {
+    this.difficulty = difficulty
+    this.difficultyChooser?.setText(this.difficulty)
+    this.rebuildBoard()
   }
 
   /**
@@ -358,6 +1153,167 @@ export default class MainScene extends Phaser.Scene {
     })
   }
 
+  /**
+   * Create the indicator shown while the background solver is checking the board
+   */
+  private createSolverIndicator() {
+    this.solverIndicator = this.add
+      .text(30, 125, "CHECKING…", {
+        fontSize: "16px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.DARK_GREEN,
+        strokeThickness: 3,
+      })
+      .setOrigin(0, 0.5)
+      .setVisible(false)
+  }
+
+  /**
+   * Show or hide the solver indicator
+   * Quick checks finish before it appears, so it doesn't flicker on every move
+   */
+  private updateSolverIndicator(pending: boolean) {
+    this.solverIndicatorTimer?.remove()
+    this.solverIndicatorTimer = null
+
+    if (!pending) {
+      this.solverIndicator?.setVisible(false)
+      return
+    }
+
+    this.solverIndicatorTimer = this.time.delayedCall(SOLVER_INDICATOR_DELAY, () => {
+      this.solverIndicator?.setVisible(true)
+    })
+  }
+
+  /**
+   * Show a banner saying the board can't be solved and how to recover
+   * Clicking it undoes the moves needed to get back to a solvable board
+   */
+  private showStuckBanner(undoCount: number | null) {
+    this.hideStuckBanner()
+
+    const message =
+      undoCount === null
+        ? "STUCK — NO WAY LEFT TO SOLVE THIS BOARD"
+        : `STUCK — UNDO ${undoCount} ${undoCount === 1 ? "MOVE" : "MOVES"} TO RECOVER`
+    const action =
+      undoCount === null ? "PRESS RESET FOR A NEW PUZZLE" : "CLICK HERE TO UNDO"
+
+    const background = this.add
+      .rectangle(0, 0, 540, 64, COLORS.MAROON, 0.9)
+      .setStrokeStyle(2, COLORS.WHITE)
+    const messageText = this.add
+      .text(0, -12, message, {
+        fontSize: "20px",
+        fontStyle: "bold",
+        color: HEX_COLORS.WHITE,
+      })
+      .setOrigin(0.5)
+    const actionText = this.add
+      .text(0, 14, action, {
+        fontSize: "14px",
+        color: HEX_COLORS.KHAKI,
+      })
+      .setOrigin(0.5)
+
+    if (undoCount !== null) {
+      background
+        .setInteractive({ useHandCursor: true })
+        .on("pointerdown", () => {
+          if (this.isInputBlocked()) return
+          for (let i = 0; i < undoCount; i++) {
+            this.gameLogic.undo()
+          }
+        })
+    }
+
+    this.stuckBanner = this.add
+      .container(APP_WIDTH / 2, this.scale.height - 180, [background, messageText, actionText])
+      .setAlpha(0)
+
+    this.tweens.add({
+      targets: this.stuckBanner,
+      alpha: 1,
+      duration: 300,
+      ease: "Power2",
+    })
+  }
+
+  private hideStuckBanner() {
+    this.stuckBanner?.destroy()
+    this.stuckBanner = null
+  }
+
+  /**
+   * Create the daily streak display, only shown in daily mode
+   */
+  private createStreakDisplay() {
+    if (this.mode !== "daily") return
+
+    this.streakDisplay = this.add
+      .text(APP_WIDTH / 2, 165, "", {
+        fontSize: "18px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.DARK_GREEN,
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+
+    this.updateStreakDisplay()
+  }
+
+  /**
+   * Update the streak display with the latest daily progress
+   */
+  private updateStreakDisplay() {
+    if (!this.streakDisplay) return
+
+    const status = this.dailyChallenge.isCompleted() ? " (DONE TODAY)" : ""
+    this.streakDisplay.setText(
+      `DAILY ${this.dailyChallenge.getDateKey()} · STREAK: ${this.dailyChallenge.getStreak()}${status}`
+    )
+  }
+
+  /**
+   * Create the level title and par display, only shown in levels mode
+   */
+  private createLevelDisplay() {
+    if (!this.level) return
+
+    this.levelDisplay = this.add
+      .text(APP_WIDTH / 2, 165, "", {
+        fontSize: "18px",
+        fontStyle: "bold",
+        color: HEX_COLORS.KHAKI,
+        stroke: HEX_COLORS.DARK_GREEN,
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+
+    this.updateLevelDisplay()
+  }
+
+  /**
+   * Update the level display with the player's best result
+   */
+  private updateLevelDisplay() {
+    if (!this.levelDisplay || !this.level) return
+
+    const { pack, level, index } = this.level
+    const result = this.levelProgress.getResult(this.getLevelRef(this.level))
+    const best = result ? ` · BEST: ${result.bestScore}` : ""
+    this.levelDisplay.setText(
+      `${pack.title.toUpperCase()} ${index + 1}: ${level.title.toUpperCase()} · PAR: ${level.par}${best}`
+    )
+  }
+
+  private getLevelRef({ pack, level }: LevelEntry): LevelRef {
+    return { packId: pack.id, levelId: level.id }
+  }
+
   /**
    * Update the score display with the current score
    */
@@ -383,12 +1339,15 @@ export default class MainScene extends Phaser.Scene {
    * Handle game over state
    */
   gameOver(isWin: boolean) {
+    // The overlay may already be showing if the state was checked more than once
+    if (this.gameOverElements.length > 0) return
+
     // Create a semi-transparent overlay
     const overlay = this.add.rectangle(
       APP_WIDTH / 2,
-      APP_HEIGHT / 2,
+      this.scale.height / 2,
       APP_WIDTH,
-      APP_HEIGHT,
+      this.scale.height,
       0x000000,
       0.7
     )
@@ -396,7 +1355,7 @@ export default class MainScene extends Phaser.Scene {
     // Create game over text
     const gameOverText = this.add.text(
       APP_WIDTH / 2,
-      APP_HEIGHT / 2 - 50,
+      this.scale.height / 2 - 50,
       isWin ? "PUZZLE SOLVED!" : "GAME OVER",
       {
         fontSize: "48px",
@@ -411,7 +1370,7 @@ export default class MainScene extends Phaser.Scene {
     // Add final score text
     const finalScoreText = this.add.text(
       APP_WIDTH / 2,
-      APP_HEIGHT / 2 + 20,
+      this.scale.height / 2 + 20,
       `FINAL SCORE: ${this.score}`,
       {
         fontSize: "36px",
@@ -426,7 +1385,7 @@ export default class MainScene extends Phaser.Scene {
     // Add play again button
     const playAgainButton = this.add.text(
       APP_WIDTH / 2,
-      APP_HEIGHT / 2 + 100,
+      this.scale.height / 2 + 100,
       "PLAY AGAIN",
       {
         fontSize: "32px",
@@ -439,21 +1398,106 @@ export default class MainScene extends Phaser.Scene {
     playAgainButton.setInteractive({ useHandCursor: true })
     playAgainButton.on("pointerdown", () => {
       // Remove game over elements
-      overlay.destroy()
-      gameOverText.destroy()
-      finalScoreText.destroy()
-      playAgainButton.destroy()
+      this.clearGameOver()
 
       // Reset the game
-      this.gameLogic.reset()
+      this.resetGame()
     })
 
+    this.gameOverElements = [overlay, gameOverText, finalScoreText, playAgainButton]
+
+    // Add replay button so players can review a solved game
+    if (isWin) {
+      const replayButton = this.add.text(
+        APP_WIDTH / 2,
+        this.scale.height / 2 + 170,
+        "WATCH REPLAY",
+        {
+          fontSize: "24px",
+          backgroundColor: HEX_COLORS.INDIGO,
+          padding: PADDING_BOX,
+          color: HEX_COLORS.WHITE,
+        }
+      )
+      replayButton.setOrigin(0.5)
+      replayButton.setInteractive({ useHandCursor: true })
+      replayButton.on("pointerdown", () => {
+        this.clearGameOver()
+        this.startReplay()
+      })
+      this.gameOverElements.push(replayButton)
+    }
+
+    // Move on through the level packs
+    if (isWin && this.level) {
+      this.createLevelButtons()
+    }
+
     // Add entrance animations
     this.tweens.add({
-      targets: [overlay, gameOverText, finalScoreText, playAgainButton],
+      targets: this.gameOverElements,
       alpha: { from: 0, to: 1 },
       duration: 500,
       ease: "Power2",
     })
+
+    this.publishBoard()
+  }
+
+  /**
+   * Add buttons to the game over overlay for the next level and the level select screen
+   */
+  private createLevelButtons() {
+    if (!this.level) return
+
+    const nextLevel = getNextLevel(this.getLevelRef(this.level))
+    const buttonStyle = {
+      fontSize: "20px",
+      backgroundColor: HEX_COLORS.TEAL,
+      padding: PADDING_BOX,
+      color: HEX_COLORS.WHITE,
+    }
+
+    const levelsButton = this.add
+      .text(APP_WIDTH / 2 + (nextLevel ? 110 : 0), this.scale.height / 2 + 230, "ALL LEVELS", buttonStyle)
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on("pointerdown", () => {
+        this.scene.start("LevelSelectScene")
+      })
+    this.gameOverElements.push(levelsButton)
+
+    if (nextLevel) {
+      const nextButton = this.add
+        .text(APP_WIDTH / 2 - 110, this.scale.height / 2 + 230, "NEXT LEVEL", buttonStyle)
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true })
+        .on("pointerdown", () => {
+          this.scene.restart({ mode: "levels", level: nextLevel })
+        })
+      this.gameOverElements.push(nextButton)
+    }
+  }
+
+  /**
+   * Remove the game over overlay
+   */
+  private clearGameOver() {
+    this.gameOverElements.forEach((element) => element.destroy())
+    this.gameOverElements = []
+    this.publishBoard()
+  }
+
+  /**
+   * Replay the solved game from its starting board
+   * The game over overlay returns when the replay is closed
+   */
+  private startReplay() {
+    this.replayManager.start(
+      this.tubes,
+      this.gameLogic.getInitialColors(),
+      this.gameLogic.getMoveHistory(),
+      () => this.gameOver(true)
+    )
   }
 }
@@ -1,5 +1,10 @@
+import { ColorVisionMode } from "./types"
+
 export const APP_WIDTH = 800
+// Height of the game on landscape screens; portrait screens get a taller
+// game, up to MAX_APP_HEIGHT (see getGameHeight)
 export const APP_HEIGHT = 600
+export const MAX_APP_HEIGHT = 1400
 
 export const COLORS = {
   RED: 0xff0000,
@@ -24,7 +29,7 @@ export const COLORS = {
   MEDIUM_PURPLE: 0x9370db,
   SADDLE_BROWN: 0x8b4513,
   DARK_TURQUOISE: 0x00ced1,
-  DARK_VIOLET: 0x800080,
+  DARK_VIOLET: 0x9400d3,
   DARK_OLIVE_GREEN: 0x556b2f,
   WHITE: 0xffffff,
 }
@@ -52,7 +57,7 @@ export const HEX_COLORS = {
   MEDIUM_PURPLE: '#9370db',
   SADDLE_BROWN: '#8b4513',
   DARK_TURQUOISE: '#00ced1',
-  DARK_VIOLET: '#800080',
+  DARK_VIOLET: '#9400d3',
   DARK_OLIVE_GREEN: '#556b2f',
   WHITE: '#ffffff',
 }
@@ -85,18 +90,90 @@ export const COLOR_PALETTE = [
   COLORS.WHITE,
 ]
 
+/**
+ * Spoken name of each COLOR_PALETTE color, for screen readers
+ * Names follow the standard palette whichever palette is on screen.
+ */
+export const COLOR_NAMES = [
+  "red",
+  "green",
+  "blue",
+  "yellow",
+  "magenta",
+  "cyan",
+  "orange",
+  "purple",
+  "dark green",
+  "maroon",
+  "olive",
+  "teal",
+  "bright orange",
+  "hot pink",
+  "indigo",
+  "chartreuse",
+  "khaki",
+  "medium turquoise",
+  "crimson",
+  "medium purple",
+  "saddle brown",
+  "dark turquoise",
+  "dark violet",
+  "dark olive green",
+  "white",
+]
+
+/**
+ * Liquid colors for each color vision mode, indexed like COLOR_PALETTE
+ *
+ * The alternative palettes start from the Okabe-Ito colors and were extended
+ * by picking the color that looks most different from those already chosen,
+ * as seen with that kind of color blindness, so the colors used on the
+ * preset boards are the easiest to tell apart.
+ */
+export const COLOR_VISION_PALETTES: Record<ColorVisionMode, number[]> = {
+  standard: COLOR_PALETTE,
+  deuteranopia: [
+    0xe69f00, 0x56b4e9, 0x009e73, 0x000000, 0xffffff, 0x0000ff, 0x000066, 0x993300,
+    0x6666ff, 0xccff99, 0x663366, 0xffff00, 0x663399, 0x000033, 0x003300, 0x66cccc,
+    0xff6666, 0x3300cc, 0xcc3399, 0x6699ff, 0x336633, 0xffff66, 0x333333, 0x99cc99,
+    0xff3333,
+  ],
+  protanopia: [
+    0xe69f00, 0x56b4e9, 0x009e73, 0x000000, 0xffffff, 0x0000ff, 0x000066, 0x663300,
+    0xcc0066, 0xffff33, 0x9966ff, 0xffff99, 0xcc0099, 0x996600, 0x330033, 0xffffcc,
+    0x009999, 0x0033cc, 0x663333, 0x66ff66, 0x00cc66, 0x6699ff, 0x99cccc, 0x99cc99,
+    0x660000,
+  ],
+  tritanopia: [
+    0xe69f00, 0x56b4e9, 0xf0e442, 0xd55e00, 0x000000, 0x9900ff, 0x663300, 0x336600,
+    0xff0000, 0xff00ff, 0x0000ff, 0xccffcc, 0x9999cc, 0x00ff00, 0xcc33ff, 0x990000,
+    0x666600, 0x330033, 0x990066, 0xcc99cc, 0x996666, 0x339900, 0x330099, 0x660000,
+    0x333333,
+  ],
+}
+
+/**
+ * Board shape for each difficulty, plus the band of difficulty ratings
+ * (1 to 10, see DifficultyRating) that generated puzzles should land in
+ */
 export const DIFFICULTY = {
   EASY: {
-    TUBE_COUNT: 4,
+    COLOR_COUNT: 3,
+    EMPTY_TUBES: 1,
     TUBE_HEIGHT: 4,
+    RATING: { MIN: 1, MAX: 2.5 },
   },
   MEDIUM: {
-    TUBE_COUNT: 6,
+    COLOR_COUNT: 5,
+    EMPTY_TUBES: 1,
     TUBE_HEIGHT: 5,
+    RATING: { MIN: 2.8, MAX: 4.5 },
   },
   HARD: {
-    TUBE_COUNT: 8,
-    TUBE_HEIGHT: 6,
+    COLOR_COUNT: 9,
+    EMPTY_TUBES: 2,
+    TUBE_HEIGHT: 4,
+    RATING: { MIN: 6.5, MAX: 10 },
   },
 }
 
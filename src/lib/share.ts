@@ -0,0 +1,43 @@
+import { DIFFICULTY } from "./constants"
+import { LaunchOptions } from "./types"
+
+type SearchParams = { [key: string]: string | string[] | undefined }
+
+/**
+ * Read the puzzle to launch from URL query params
+ * Supports ?p=<puzzle text> or ?seed=<number>&difficulty=<EASY|MEDIUM|HARD>
+ */
+export function parseLaunchParams(params: SearchParams): LaunchOptions {
+  const getParam = (key: string) => {
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  const puzzle = getParam("p")
+  if (puzzle) {
+    return { puzzle }
+  }
+
+  const options: LaunchOptions = {}
+  const seed = getParam("seed")
+  const difficulty = getParam("difficulty")?.toUpperCase()
+
+  if (seed && /^\d+$/.test(seed)) {
+    options.seed = Number(seed)
+  }
+  if (difficulty && difficulty in DIFFICULTY) {
+    options.difficulty = difficulty as keyof typeof DIFFICULTY
+  }
+
+  return options
+}
+
+/**
+ * Build a URL that opens the given puzzle
+ */
+export function buildShareUrl(puzzle: string, baseUrl: string): string {
+  const url = new URL(baseUrl)
+  url.search = new URLSearchParams({ p: puzzle }).toString()
+  url.hash = ""
+  return url.toString()
+}
@@ -0,0 +1,210 @@
+import { DIFFICULTY } from "./constants"
+
+/**
+ * A lightweight tube representation used for search and simulation,
+ * independent of any rendering
+ */
+export interface MinimalTube {
+  colors: number[]
+  maxHeight: number
+  isEmpty(): boolean
+  isCompleted(): boolean
+  getTopColor(): number | null
+  getConsecutiveTopColors(): number
+  removeTopColors(count: number): void
+  addColors(color: number, count: number): void
+}
+
+/**
+ * A single pour from one tube to another
+ */
+export interface Move {
+  fromIndex: number
+  toIndex: number
+  color: number
+  count: number
+}
+
+/**
+ * How the current puzzle was chosen
+ * - classic: a fresh random puzzle every game
+ * - daily: the same date-derived puzzle for every player
+ * - levels: a hand-authored board from a level pack
+ */
+export type GameMode = "classic" | "daily" | "levels"
+
+/**
+ * A hand-authored board in a level pack
+ * - board: the starting tubes in the text puzzle format
+ * - par: the number of moves a good solution takes
+ */
+export interface LevelDefinition {
+  id: string
+  title: string
+  board: string
+  par: number
+}
+
+/**
+ * A titled, ordered set of levels; each level unlocks the next one
+ */
+export interface LevelPack {
+  id: string
+  title: string
+  levels: LevelDefinition[]
+}
+
+/**
+ * Identifies a level within the level packs
+ */
+export interface LevelRef {
+  packId: string
+  levelId: string
+}
+
+/**
+ * The player's best result on a completed level
+ */
+export interface LevelResult {
+  bestScore: number
+  bestMoves: number
+}
+
+/**
+ * A complete description of a puzzle: its starting tubes (colors listed
+ * bottom-to-top), plus the seed it was generated from and the moves played
+ */
+export interface PuzzleDefinition {
+  capacity: number
+  tubes: number[][]
+  seed: number | null
+  moves: Pick<Move, "fromIndex" | "toIndex">[]
+}
+
+/**
+ * Puzzle requested when the game is opened, e.g. from a shared URL
+ * - puzzle: a board in the text puzzle format
+ * - seed/difficulty: regenerate a board from its seed
+ */
+export interface LaunchOptions {
+  puzzle?: string
+  seed?: number
+  difficulty?: keyof typeof DIFFICULTY
+}
+
+/**
+ * Undo/redo availability sent with the "historyChange" event
+ */
+export interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+}
+
+/**
+ * A preset difficulty, or a custom board chosen by the player
+ */
+export type DifficultyLevel = keyof typeof DIFFICULTY | "CUSTOM"
+
+/**
+ * Board dimensions for a custom puzzle
+ */
+export interface BoardSettings {
+  colorCount: number
+  capacity: number
+  emptyTubes: number
+}
+
+/**
+ * What the game shows on its board, for mirroring it outside the canvas
+ */
+export interface BoardSnapshot {
+  tubes: number[][]
+  capacity: number
+  selectedIndex: number | null
+  moveCount: number
+  canUndo: boolean
+  canRedo: boolean
+  // True while the solved or game over screen is showing
+  gameOver: boolean
+}
+
+/**
+ * Palette the liquids are drawn with; each alternative palette keeps its
+ * colors apart for players with that kind of color blindness
+ */
+export type ColorVisionMode = "standard" | "deuteranopia" | "protanopia" | "tritanopia"
+
+/**
+ * How the player wants liquids drawn
+ */
+export interface ColorSettings {
+  palette: ColorVisionMode
+  // Overlay a glyph on each segment so colors can be told apart by shape
+  patterns: boolean
+}
+
+/**
+ * What the solver found out about a board
+ * - solvable: a solution was found
+ * - unsolvable: every reachable state was searched without finding one
+ * - unknown: the search gave up before reaching an answer
+ */
+export type Solvability = "solvable" | "unsolvable" | "unknown"
+
+/**
+ * Work done by the solver while searching for a solution
+ * - expandedStates: board states whose moves were explored
+ * - branches: total useful moves found across expanded states
+ * - deadEnds: expanded states with no useful move left
+ */
+export interface SearchStats {
+  expandedStates: number
+  branches: number
+  deadEnds: number
+}
+
+/**
+ * Solvability, shortest solution and search effort for a board
+ */
+export interface SolverResult {
+  solvability: Solvability
+  moves: Move[] | null
+  stats: SearchStats
+}
+
+/**
+ * How hard a puzzle is, derived from its optimal solution and search effort
+ */
+export interface PuzzleRating {
+  // Overall difficulty from 1 (trivial) to 10 (brutal)
+  score: number
+  optimalMoves: number
+  branchingFactor: number
+  deadEnds: number
+  // Moves in the optimal solution that pour into an empty tube
+  emptyTubeMoves: number
+}
+
+/**
+ * Range of difficulty scores a generated puzzle should fall within
+ */
+export interface RatingBand {
+  MIN: number
+  MAX: number
+}
+
+/**
+ * Messages sent to the solver worker
+ * - solve: find the shortest solution for a board in the text puzzle format
+ * - cancel: drop a queued solve request that is no longer needed
+ */
+export type SolverRequest =
+  | { type: "solve"; id: number; puzzle: string }
+  | { type: "cancel"; id: number }
+
+/**
+ * Solver worker reply to a solve request
+ */
+export interface SolverResponse extends SolverResult {
+  id: number
+}
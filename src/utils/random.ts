@@ -0,0 +1,57 @@
+/**
+ * SeededRandom is a small deterministic pseudo-random number generator
+ * (mulberry32) so that the same seed always produces the same sequence.
+ */
+export class SeededRandom {
+  private state: number
+
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Create a random 32-bit seed for a new, unseeded game
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * Return a float in the range [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Return an integer in the range [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  /**
+   * Return a random element of the array
+   */
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)]
+  }
+
+  /**
+   * Return a shuffled copy of the array (Fisher-Yates)
+   */
+  shuffle<T>(items: T[]): T[] {
+    const result = [...items]
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1)
+      const temp = result[i]
+      result[i] = result[j]
+      result[j] = temp
+    }
+    return result
+  }
+}